@@ -0,0 +1,204 @@
+import { estimateTokens } from './element-ranker';
+import { AccessibilityNode } from './types';
+
+// One node of CDP's Accessibility.getFullAXTree, limited to the fields read here. The tree comes as a flat list
+// linked by childIds, with every property wrapped in { type, value }
+export interface RawAccessibilityNode {
+  nodeId: string;
+  ignored: boolean;
+  role?: { value?: unknown };
+  name?: { value?: unknown };
+  description?: { value?: unknown };
+  value?: { value?: unknown };
+  properties?: { name: string; value: { value?: unknown } }[];
+  childIds?: string[];
+  parentId?: string;
+}
+
+// Roles the model can act on; only these get a selector
+const ACTIONABLE_ROLES = new Set([
+  'button',
+  'link',
+  'textbox',
+  'searchbox',
+  'combobox',
+  'listbox',
+  'option',
+  'checkbox',
+  'radio',
+  'switch',
+  'slider',
+  'spinbutton',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'tab',
+  'treeitem',
+]);
+
+// Containers that add depth but no meaning; their children are lifted to the parent's level
+const TRANSPARENT_ROLES = new Set(['generic', 'none', 'presentation']);
+
+const MAX_NAME_LENGTH = 80;
+
+// Turns the CDP node list into our own nested node type and gives every actionable node a Playwright role selector.
+// Nodes sharing a role and name are told apart with nth=, counted in page order like getByRole().nth()
+export function buildAccessibilityTree(raw: RawAccessibilityNode[]): AccessibilityNode | undefined {
+  const document = raw.find(node => !node.parentId) ?? raw[0];
+  const root = document ? pruneNode(document, new Map(raw.map(node => [node.nodeId, node])), '') : [];
+  if (root.length !== 1) return undefined;
+
+  const occurrences = new Map<string, number>();
+  countSelectors(root[0], occurrences);
+
+  const seen = new Map<string, number>();
+  const assign = (node: AccessibilityNode) => {
+    if (ACTIONABLE_ROLES.has(node.role)) {
+      const base = roleSelector(node);
+      for (const key of selectorKeys(node)) {
+        seen.set(key, (seen.get(key) ?? 0) + 1);
+      }
+      const index = seen.get(base)! - 1;
+      node.selector = (occurrences.get(base) ?? 0) > 1 ? `${base} >> nth=${index}` : base;
+    }
+    node.children?.forEach(assign);
+  };
+  assign(root[0]);
+
+  return root[0];
+}
+
+// Every selector in the tree, for validating a decision against it
+export function accessibilitySelectors(tree: AccessibilityNode): string[] {
+  const selectors: string[] = [];
+  const visit = (node: AccessibilityNode) => {
+    if (node.selector) selectors.push(node.selector);
+    node.children?.forEach(visit);
+  };
+  visit(tree);
+  return selectors;
+}
+
+// Indented outline for the prompt, one node per line, cut off once the token budget is spent.
+// The root document node is left out; its title is already in the prompt
+export function serializeAccessibilityTree(
+  tree: AccessibilityNode,
+  tokenBudget: number
+): { text: string; shown: number; total: number } {
+  const lines: string[] = [];
+  let estimatedTokens = 0;
+  let total = 0;
+  let full = false;
+
+  const visit = (node: AccessibilityNode, depth: number) => {
+    let childDepth = depth;
+    if (!(TRANSPARENT_ROLES.has(node.role) && !node.name)) {
+      total++;
+      const line = `${'  '.repeat(depth)}${formatNode(node)}`;
+      const cost = estimateTokens(line);
+      if (!full && estimatedTokens + cost <= tokenBudget) {
+        lines.push(line);
+        estimatedTokens += cost;
+      } else {
+        // Everything after the first node that doesn't fit is left out, so no line appears without its parent
+        full = true;
+      }
+      childDepth = depth + 1;
+    }
+    node.children?.forEach(child => visit(child, childDepth));
+  };
+  tree.children?.forEach(child => visit(child, 0));
+
+  return { text: lines.join('\n'), shown: lines.length, total };
+}
+
+// role "name" [states] value="..." selector: ...
+function formatNode(node: AccessibilityNode): string {
+  const parts = [node.role];
+
+  const name = node.name.replace(/\s+/g, ' ').trim();
+  if (name) parts.push(JSON.stringify(name.length > MAX_NAME_LENGTH ? `${name.slice(0, MAX_NAME_LENGTH - 3)}...` : name));
+
+  if (node.level !== undefined) parts.push(`[level=${node.level}]`);
+  if (node.checked !== undefined) parts.push(node.checked === 'mixed' ? '[mixed]' : node.checked ? '[checked]' : '[unchecked]');
+  if (node.pressed !== undefined) parts.push(node.pressed === 'mixed' ? '[pressed=mixed]' : node.pressed ? '[pressed]' : '[not pressed]');
+  if (node.expanded !== undefined) parts.push(node.expanded ? '[expanded]' : '[collapsed]');
+  if (node.selected) parts.push('[selected]');
+  if (node.disabled) parts.push('[disabled]');
+  if (node.required) parts.push('[required]');
+  if (node.focused) parts.push('[focused]');
+  if (node.value) parts.push(`value=${JSON.stringify(node.value.slice(0, 40))}`);
+  if (node.description) parts.push(`description=${JSON.stringify(node.description.slice(0, 80))}`);
+  if (node.selector) parts.push(`selector: ${node.selector}`);
+
+  return parts.join(' ');
+}
+
+// Exact, case-sensitive name match; an unnamed node is matched by role alone
+function roleSelector(node: AccessibilityNode): string {
+  return node.name ? `role=${node.role}[name=${JSON.stringify(node.name)}s]` : `role=${node.role}`;
+}
+
+// A bare role selector matches named nodes of that role too, so every node counts towards it
+function selectorKeys(node: AccessibilityNode): string[] {
+  return node.name ? [`role=${node.role}`, roleSelector(node)] : [`role=${node.role}`];
+}
+
+function countSelectors(node: AccessibilityNode, occurrences: Map<string, number>): void {
+  if (ACTIONABLE_ROLES.has(node.role)) {
+    for (const key of selectorKeys(node)) {
+      occurrences.set(key, (occurrences.get(key) ?? 0) + 1);
+    }
+  }
+  node.children?.forEach(child => countSelectors(child, occurrences));
+}
+
+// Keeps what Playwright's old interestingOnly snapshot kept: ignored nodes and unnamed wrappers are replaced by their
+// children, inline text boxes are dropped, and text that only repeats its parent's name (a button's label) goes too.
+// Returns the nodes that take this one's place
+function pruneNode(raw: RawAccessibilityNode, byId: Map<string, RawAccessibilityNode>, parentName: string): AccessibilityNode[] {
+  const role = String(raw.role?.value ?? '');
+  const name = String(raw.name?.value ?? '');
+  if (role === 'InlineTextBox') return [];
+
+  const childParentName = raw.ignored ? parentName : name;
+  let children = (raw.childIds ?? [])
+    .map(id => byId.get(id))
+    .filter((child): child is RawAccessibilityNode => !!child)
+    .flatMap(child => pruneNode(child, byId, childParentName));
+
+  if (raw.ignored || (TRANSPARENT_ROLES.has(role) && !name)) return children;
+  if (role === 'StaticText' && (!name.trim() || name === parentName)) return [];
+  // A control's label text is already its name
+  if (ACTIONABLE_ROLES.has(role)) children = children.filter(child => child.role !== 'text');
+
+  const node: AccessibilityNode = { role: role === 'StaticText' ? 'text' : role, name };
+  const value = raw.value?.value;
+  if (value !== undefined && value !== '') node.value = String(value);
+  const description = raw.description?.value;
+  if (typeof description === 'string' && description) node.description = description;
+
+  for (const { name: property, value: { value: state } } of raw.properties ?? []) {
+    switch (property) {
+      case 'checked':
+      case 'pressed':
+        node[property] = state === 'mixed' ? 'mixed' : state === true || state === 'true';
+        break;
+      case 'expanded':
+        node.expanded = state === true || state === 'true';
+        break;
+      case 'selected':
+      case 'disabled':
+      case 'focused':
+      case 'required':
+        if (state === true || state === 'true') node[property] = true;
+        break;
+      case 'level':
+        if (typeof state === 'number') node.level = state;
+        break;
+    }
+  }
+
+  if (children.length) node.children = children;
+  return [node];
+}
@@ -0,0 +1,219 @@
+import { ActionExecuted, PageState, UIElement } from './types';
+
+export function generateActionDescription(action: ActionExecuted, reasoning: string, pageState: PageState): string {
+  let description = '';
+
+  switch (action.type) {
+    case 'click':
+      const clickedElement = pageState.interactiveElements.find(
+        el => el.selector === action.selector
+      );
+      description = `Click on the element with selector "${action.selector}"`;
+      if (clickedElement?.text) {
+        description += ` (text: "${clickedElement.text}")`;
+      }
+      if (clickedElement?.role) {
+        description += ` which is a ${clickedElement.role}`;
+      }
+      description += `. ${reasoning}`;
+      if (action.coordinates) {
+        description += ` The element is located at coordinates (${action.coordinates.x}, ${action.coordinates.y}).`;
+      }
+      break;
+
+    case 'type':
+      const typedElement = pageState.interactiveElements.find(
+        el => el.selector === action.selector
+      );
+      description = `Type "${action.text}" into the input field with selector "${action.selector}"`;
+      if (typedElement?.placeholder) {
+        description += ` (placeholder: "${typedElement.placeholder}")`;
+      }
+      description += `. ${reasoning}`;
+      break;
+
+    case 'select':
+      description = `Select "${action.value}" from the dropdown with selector "${action.selector}". ${reasoning}`;
+      break;
+
+    case 'hover':
+      const hoveredElement = pageState.interactiveElements.find(
+        el => el.selector === action.selector
+      );
+      description = `Hover over the element with selector "${action.selector}"`;
+      if (hoveredElement?.text) {
+        description += ` (text: "${hoveredElement.text}")`;
+      }
+      description += ` to reveal its menu. ${reasoning}`;
+      break;
+
+    case 'scroll':
+      description = `Scroll ${action.direction} by ${action.amount} pixels`;
+      if (action.selector) {
+        description += ` within the element with selector "${action.selector}"`;
+      }
+      description += `. ${reasoning}`;
+      break;
+
+    case 'keypress':
+      description = `Press ${action.key}`;
+      if (action.selector) {
+        description += ` in the element with selector "${action.selector}"`;
+      }
+      description += `. ${reasoning}`;
+      break;
+
+    case 'wait':
+      description = action.selector
+        ? `Wait for the element with selector "${action.selector}" to appear. ${reasoning}`
+        : `Wait ${action.duration}ms for the page to update. ${reasoning}`;
+      break;
+
+    case 'back':
+      description = `Go back to the previous page. ${reasoning}`;
+      break;
+
+    case 'navigate':
+      description = `Navigate to ${action.url}. ${reasoning}`;
+      break;
+
+    case 'upload':
+      description = `Upload the file "${action.file}" through the element with selector "${action.selector}". ${reasoning}`;
+      break;
+
+    case 'switch_tab':
+      description = `Switch to browser tab ${action.tab}. ${reasoning}`;
+      break;
+
+    case 'close_tab':
+      description = action.tab !== undefined
+        ? `Close browser tab ${action.tab}. ${reasoning}`
+        : `Close the current browser tab. ${reasoning}`;
+      break;
+
+    case 'complete':
+      description = `Task completed successfully. ${reasoning}`;
+      break;
+  }
+
+  return description;
+}
+
+const ROLE_NOUNS: Record<string, string> = {
+  button: 'button',
+  link: 'link',
+  textbox: 'field',
+  searchbox: 'search field',
+  combobox: 'dropdown',
+  listbox: 'list',
+  checkbox: 'checkbox',
+  radio: 'option',
+  switch: 'toggle',
+  tab: 'tab',
+  menuitem: 'menu item',
+  option: 'option',
+};
+
+const TAG_NOUNS: Record<string, string> = {
+  a: 'link',
+  button: 'button',
+  input: 'field',
+  textarea: 'field',
+  select: 'dropdown',
+};
+
+// Selector parts that carry the text a reader sees, most readable first
+const SELECTOR_LABELS = [
+  /\[aria-label="((?:[^"\\]|\\.)*)"/,
+  /\[name="((?:[^"\\]|\\.)*)"s?\]/, // role=button[name="..."] from the accessibility tree
+  /:has-text\("((?:[^"\\]|\\.)*)"\)/,
+  /^text="((?:[^"\\]|\\.)*)"/,
+  /\[placeholder="((?:[^"\\]|\\.)*)"/,
+  /\[title="((?:[^"\\]|\\.)*)"/,
+];
+
+// Names an element the way a reader would see it on screen, e.g. the "New page" button.
+// Without the element snapshot the label comes from the recorded selector; "highlighted" is only used when the
+// screenshot next to the instruction actually marks the element
+export function describeElement(
+  element: UIElement | undefined,
+  options: { selector?: string; highlighted?: boolean; noun?: string } = {}
+): string {
+  if (!element) {
+    const fromSelector = options.selector ? labelFromSelector(options.selector) : undefined;
+    if (fromSelector) return formatTarget(fromSelector.label, fromSelector.noun ?? options.noun ?? 'element');
+    return options.highlighted ? 'the highlighted element' : 'the element';
+  }
+
+  const raw = element.ariaLabel || element.text || element.placeholder || element.title || element.name || '';
+  return formatTarget(raw, ROLE_NOUNS[element.role] ?? 'element');
+}
+
+function formatTarget(raw: string, noun: string): string {
+  const label = raw.replace(/\s+/g, ' ').trim();
+  if (!label) {
+    return `the ${noun}`;
+  }
+  return `the "${label.length > 60 ? `${label.slice(0, 57)}...` : label}" ${noun}`;
+}
+
+function labelFromSelector(selector: string): { label: string; noun?: string } | undefined {
+  // Only the last part of a chain (frame >> element, or element >> nth=1) names the target
+  const target = selector.split(' >> ').filter(part => !part.startsWith('nth=')).pop() ?? selector;
+
+  for (const pattern of SELECTOR_LABELS) {
+    const match = pattern.exec(target);
+    if (match && match[1].trim()) {
+      const role = /^role=([a-z]+)/.exec(target)?.[1] ?? /\[role="([a-z]+)"\]/.exec(target)?.[1];
+      const tag = /^([a-z]+)(?![a-z=])/.exec(target)?.[1];
+      const noun = (role && ROLE_NOUNS[role]) || (tag && TAG_NOUNS[tag]) || undefined;
+      return { label: match[1].replace(/\\(.)/g, '$1'), noun };
+    }
+  }
+  return undefined;
+}
+
+// A tutorial-style instruction for one action; empty for steps a reader does not perform
+export function generateInstruction(
+  action: ActionExecuted,
+  element?: UIElement,
+  options: { highlighted?: boolean } = {}
+): string {
+  // Something typed into is a field to the reader, whatever its tag
+  const target = describeElement(element, {
+    selector: action.selector,
+    highlighted: options.highlighted,
+    noun: action.type === 'type' ? 'field' : undefined,
+  });
+
+  switch (action.type) {
+    case 'click':
+      return `Click ${target}.`;
+    case 'type':
+      return `Type "${action.text ?? ''}" into ${target}.`;
+    case 'select':
+      return `Choose "${action.value ?? ''}" from ${target}.`;
+    case 'hover':
+      return `Hover over ${target} to reveal more options.`;
+    case 'scroll':
+      return action.selector
+        ? `Scroll ${action.direction ?? 'down'} within ${target}.`
+        : `Scroll ${action.direction ?? 'down'} the page.`;
+    case 'keypress':
+      return action.selector ? `Press ${action.key} in ${target}.` : `Press ${action.key}.`;
+    case 'wait':
+      return action.selector ? `Wait for ${target} to appear.` : 'Wait for the page to update.';
+    case 'back':
+      return 'Go back to the previous page.';
+    case 'navigate':
+      return `Go to ${action.url}.`;
+    case 'upload':
+      return `Upload "${action.file ?? ''}" using ${target}.`;
+    case 'switch_tab':
+      return 'Switch to the other browser tab.';
+    case 'close_tab':
+      return 'Close this browser tab.';
+    case 'complete':
+      return '';
+  }
+}
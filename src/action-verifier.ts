@@ -0,0 +1,108 @@
+import { createHash } from 'crypto';
+import { ActionExecuted, PageState, StepVerification, WorkflowStep } from './types';
+
+export function hashScreenshot(screenshotBase64: string): string {
+  return createHash('sha256').update(screenshotBase64).digest('hex');
+}
+
+// Compares the page before and after an action and describes what changed, in words the LLM can act on
+export function verifyStep(
+  before: PageState,
+  after: PageState,
+  action: ActionExecuted,
+  history: WorkflowStep[]
+): StepVerification {
+  const beforeSelectors = new Set(before.interactiveElements.map(el => el.selector));
+  const afterSelectors = new Set(after.interactiveElements.map(el => el.selector));
+
+  const urlChanged = before.url !== after.url;
+  const titleChanged = before.title !== after.title;
+  const screenshotChanged = hashScreenshot(before.screenshotBase64) !== hashScreenshot(after.screenshotBase64);
+  const elementsAdded = [...afterSelectors].filter(selector => !beforeSelectors.has(selector)).length;
+  const elementsRemoved = [...beforeSelectors].filter(selector => !afterSelectors.has(selector)).length;
+
+  // A dialog or download is a visible result even when the page itself looks the same
+  const noOp = !urlChanged && !titleChanged && !screenshotChanged && elementsAdded === 0 && elementsRemoved === 0 &&
+    !after.dialogs?.length && !after.downloads?.length;
+  const repeatCount = noOp ? countRepeats(action, history) : 0;
+
+  const verification: StepVerification = {
+    urlChanged,
+    titleChanged,
+    screenshotChanged,
+    elementsAdded,
+    elementsRemoved,
+    noOp,
+    repeatCount,
+    observation: '',
+  };
+  verification.observation = describeVerification(verification, action, after);
+
+  return verification;
+}
+
+export function describeVerification(
+  verification: StepVerification,
+  action: ActionExecuted,
+  after: PageState
+): string {
+  const target = action.selector ? ` ${action.selector}` : '';
+  const notes: string[] = [];
+
+  if (verification.noOp) {
+    notes.push(`No visible change after ${action.type}${target}.`);
+  } else {
+    if (verification.urlChanged) notes.push(`URL changed to ${after.url}.`);
+    if (verification.titleChanged) notes.push(`Title changed to "${after.title}".`);
+    if (verification.elementsAdded || verification.elementsRemoved) {
+      notes.push(`${verification.elementsAdded} elements appeared, ${verification.elementsRemoved} disappeared.`);
+    }
+    if (notes.length === 0 && verification.screenshotChanged) notes.push('The page changed visually.');
+  }
+
+  for (const dialog of after.dialogs ?? []) {
+    notes.push(`A ${dialog.type} dialog said "${dialog.message}" and was ${dialog.response}.`);
+  }
+  for (const download of after.downloads ?? []) {
+    notes.push(download.failure
+      ? `Download of ${download.suggestedFilename} failed: ${download.failure}.`
+      : `Downloaded ${download.suggestedFilename}.`);
+  }
+
+  if (verification.repeatCount > 1) {
+    notes.push(`This exact action has now run ${verification.repeatCount} times in a row without effect.`);
+  }
+  if (verification.recovery === 'escape') {
+    notes.push('Pressed Escape to recover from the loop.');
+  } else if (verification.recovery === 'back') {
+    notes.push('Went back to the previous page to recover from the loop.');
+  }
+  if ((verification.noOp && verification.repeatCount > 1) || verification.recovery) {
+    notes.push(`Do not repeat it - choose a different element or action.`);
+  }
+
+  return notes.join(' ');
+}
+
+// How many times this no-op action has run back to back without effect, including this one. A repeat that changed
+// the page (scrolling down a long list, clicking Next in a wizard) is progress and ends the run
+function countRepeats(action: ActionExecuted, history: WorkflowStep[]): number {
+  let count = 1;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const { action: previous, verification } = history[i];
+    if (
+      !verification?.noOp ||
+      previous.type !== action.type ||
+      previous.selector !== action.selector ||
+      previous.text !== action.text ||
+      previous.key !== action.key ||
+      previous.direction !== action.direction ||
+      previous.amount !== action.amount ||
+      previous.duration !== action.duration
+    ) {
+      break;
+    }
+    count++;
+  }
+  return count;
+}
@@ -1,16 +1,36 @@
 import { BrowserController } from './browser-controller';
-import { LLMService } from './llm-service';
+import { LLMProvider } from './llm-provider';
 import { WorkflowState } from './workflow-state';
-import { WorkflowConfig, ActionExecuted, PageState } from './types';
-import { promises as fs } from 'fs';
+import { sanitizeTaskName } from './task-dataset';
+import { verifyStep, describeVerification } from './action-verifier';
+import { StepReviewer, ReviewOutcome } from './step-reviewer';
+import { generateActionDescription } from './action-description';
+import { findElement, resolveElementIndex } from './decision-validator';
+import { DEFAULT_ELEMENT_TOKEN_BUDGET, elementLabel, rankElements } from './element-ranker';
+import { listUploadFixtures, resolveUploadFixture } from './upload-fixtures';
+import { SecretVault } from './secret-vault';
+import {
+  WorkflowConfig,
+  WorkflowResult,
+  ActionExecuted,
+  LLMDecision,
+  LLMMetrics,
+  PageState,
+  StepVerification,
+  UIElement,
+  UIStateRecord,
+} from './types';
+import { Browser } from 'playwright';
 
 export class Agent {
   private browser: BrowserController;
-  private llm: LLMService;
+  private llm: LLMProvider;
   private state: WorkflowState;
   private config: WorkflowConfig;
+  private reviewer: StepReviewer | null = null;
+  private secretNames: string[] = [];
 
-  constructor(openaiApiKey: string, config: Partial<WorkflowConfig> = {}) {
+  constructor(llm: LLMProvider, config: Partial<WorkflowConfig> = {}) {
     this.config = {
       maxSteps: config.maxSteps ?? 20,
       screenshotDir: config.screenshotDir ?? 'dataset',
@@ -18,71 +38,158 @@ export class Agent {
       viewportWidth: config.viewportWidth ?? 1280,
       viewportHeight: config.viewportHeight ?? 720,
       userDataDir: config.userDataDir ?? 'user-data-dir',
+      headless: config.headless ?? false,
+      keepAliveSeconds: config.keepAliveSeconds ?? 60,
+      storageStatePath: config.storageStatePath,
+      loopThreshold: config.loopThreshold ?? 3,
+      interactive: config.interactive ?? false,
+      annotateScreenshots: config.annotateScreenshots ?? true,
+      annotationCropPadding: config.annotationCropPadding,
+      setOfMarks: config.setOfMarks ?? false,
+      elementTokenBudget: config.elementTokenBudget ?? DEFAULT_ELEMENT_TOKEN_BUDGET,
+      dialogPolicy: config.dialogPolicy ?? 'accept',
+      fixturesDir: config.fixturesDir ?? 'fixtures',
+      secretsFile: config.secretsFile,
+      redaction: config.redaction,
+      observationMode: config.observationMode ?? 'dom',
+      trace: config.trace ?? false,
+      har: config.har ?? false,
+      video: config.video ?? false,
     };
 
     this.browser = new BrowserController();
-    this.llm = new LLMService(openaiApiKey);
+    this.llm = llm;
     this.state = new WorkflowState('', this.config.screenshotDir, 'elements');
   }
 
-  async execute(userTask: string): Promise<void> {
+  async execute(
+    userTask: string,
+    options: { startUrl?: string; sharedBrowser?: Browser; resume?: boolean } = {}
+  ): Promise<WorkflowResult> {
+    const startTime = Date.now();
     console.log(`\nStarting Workflow...`);
     console.log(`Task: ${userTask}\n`);
 
-    const taskDir = this.sanitizeTaskName(userTask);
+    const taskDir = sanitizeTaskName(userTask);
     const taskPath = `${this.config.screenshotDir}/${taskDir}`;
     const elementsPath = `elements/${taskDir}`;
     
-    this.state = new WorkflowState(userTask, taskPath, elementsPath);
+    this.state = new WorkflowState(userTask, taskPath, elementsPath, { redaction: this.config.redaction });
     await this.state.initialize();
 
-    await this.browser.initialize({
-      headless: false,
-      slowMo: this.config.slowMo,
-      viewportWidth: this.config.viewportWidth,
-      viewportHeight: this.config.viewportHeight,
-      userDataDir: this.config.userDataDir,
-    });
+    const resumed = options.resume ? await this.state.restore() : null;
+    if (options.resume && !resumed) {
+      console.log(`Nothing to resume in ${taskPath}, starting from scratch`);
+    }
+    if (resumed?.completed) {
+      console.log(`Already completed in ${taskPath}, nothing to resume`);
+      return {
+        task: userTask,
+        taskPath,
+        completed: true,
+        totalSteps: this.state.getCurrentStepNumber(),
+        durationMs: Date.now() - startTime,
+      };
+    }
+    if (resumed && !resumed.url) {
+      throw new Error(`Cannot resume ${taskPath}: every recorded URL was redacted`);
+    }
+
+    const secrets = await SecretVault.load(this.config.secretsFile);
+    this.secretNames = secrets.names();
+    this.state.setRunInfo({ model: this.llm.getModel?.(), config: this.config });
+
+    if (this.config.interactive) {
+      this.reviewer = new StepReviewer();
+    }
 
     try {
-      console.log(`\nDetermining what URL to navigate to...`);
-      const initialUrl = await this.llm.determineInitialUrl(userTask);
-      console.log(`Navigating to: ${initialUrl}`);
-      
-      await this.browser.navigate(initialUrl);
-      await this.captureInitialState();
+      await this.browser.initialize({
+        headless: this.config.headless,
+        slowMo: this.config.slowMo,
+        viewportWidth: this.config.viewportWidth,
+        viewportHeight: this.config.viewportHeight,
+        userDataDir: this.config.userDataDir,
+        storageStatePath: this.config.storageStatePath,
+        sharedBrowser: options.sharedBrowser,
+        dialogPolicy: this.config.dialogPolicy,
+        downloadDir: `${taskPath}/downloads`,
+        secrets,
+        recording: { dir: taskPath, trace: this.config.trace, har: this.config.har, video: this.config.video },
+      });
+
+      if (resumed?.url) {
+        // The page is reached by URL again; anything only held in memory (open menus, unsaved form input) is gone
+        const stepNumber = this.state.getCurrentStepNumber();
+        console.log(`Resuming at step ${stepNumber}, navigating to: ${resumed.url}`);
+        await this.browser.beginStep(`Resume at step ${stepNumber}`);
+        await this.browser.navigate(resumed.url);
+      } else {
+        let initialUrl = options.startUrl;
+        if (!initialUrl) {
+          console.log(`\nDetermining what URL to navigate to...`);
+          const requestStart = Date.now();
+          initialUrl = await this.llm.determineInitialUrl(userTask);
+          this.state.addUsage(this.takeMetrics(requestStart));
+        }
+        console.log(`Navigating to: ${initialUrl}`);
+        this.state.setRunInfo({ initialUrl });
+
+        await this.browser.beginStep('Step 0: navigate');
+        await this.browser.navigate(initialUrl);
+        await this.captureInitialState();
+      }
 
-      await this.executeWorkflowLoop(userTask);
+      const completed = await this.executeWorkflowLoop(userTask, resumed?.endState);
 
-      await this.state.exportSummary();
+      await this.state.exportSummary(completed ? 'completed' : 'max_steps');
       console.log(`\nWorkflow Complete\n`);
 
-      await this.browser.keepAlive(60);
+      if (this.config.keepAliveSeconds > 0) {
+        await this.browser.keepAlive(this.config.keepAliveSeconds);
+      }
+
+      return {
+        task: userTask,
+        taskPath,
+        completed,
+        totalSteps: this.state.getCurrentStepNumber(),
+        durationMs: Date.now() - startTime,
+      };
     } catch (error) {
       console.error(`\nWorkflow Error:`, error);
-      await this.browser.saveScreenshot(
-        `${this.state.getTaskPath()}/error.png`
-      );
+      // Neither may hide the original error; the browser can be the thing that failed
+      await this.state.exportSummary('error', error).catch(summaryError => {
+        console.error(`Could not write the failure summary:`, summaryError);
+      });
+      await this.browser.saveScreenshot(`${this.state.getTaskPath()}/error.png`).catch(() => undefined);
       throw error;
     } finally {
+      this.reviewer?.close();
+      this.reviewer = null;
       await this.browser.close();
     }
   }
 
+  // Time since requestStart plus the tokens the provider counted meanwhile; operator review comes later, so it isn't included
+  private takeMetrics(requestStart: number): LLMMetrics {
+    return { latencyMs: Date.now() - requestStart, ...this.llm.takeUsage?.() };
+  }
+
   private async captureInitialState(): Promise<void> {
     const taskPath = this.state.getTaskPath();
-    const elementsPath = this.state.getElementsPath();
     const screenshotPath = `${taskPath}/step-0-initial.png`;
     await this.browser.saveScreenshot(screenshotPath);
 
-    const pageState = await this.browser.capturePageState();
+    const pageState = await this.observe();
+    Object.assign(pageState, await this.browser.collectEvents());
     
     const initialAction: ActionExecuted = {
       type: 'navigate',
       url: pageState.url,
     };
 
-    const uiStateData = {
+    const uiStateData: UIStateRecord = {
       stepNumber: 0,
       action: initialAction,
       reasoning: 'Initial page load',
@@ -95,104 +202,105 @@ export class Agent {
       timestamp: new Date(),
     };
 
-    const uiStatePath = `${taskPath}/ui-state-0.json`;
-    await fs.writeFile(uiStatePath, JSON.stringify(uiStateData, null, 2), 'utf-8');
-
-    const elementsFilePath = `${elementsPath}/elements-0.json`;
-    await this.browser.saveElementsToJson(pageState.interactiveElements, elementsFilePath);
-
-    this.state.addStep(
-      initialAction,
-      'Initial page load',
-      screenshotPath
-    );
+    await this.state.recordStep(uiStateData, pageState);
 
     console.log(`[Step 0] Initial state captured`);
   }
 
-  private async executeWorkflowLoop(userTask: string): Promise<void> {
+  private async executeWorkflowLoop(userTask: string, resumedEndState?: string): Promise<boolean> {
     let completed = false;
 
-    console.log('Determining minimum end state for task...');
-    const endState = await this.llm.determineEndState(userTask);
+    let endState = resumedEndState;
+    if (!endState) {
+      console.log('Determining minimum end state for task...');
+      const requestStart = Date.now();
+      endState = await this.llm.determineEndState(userTask);
+      this.state.addUsage(this.takeMetrics(requestStart));
+      await this.state.setEndState(endState);
+    }
     console.log(`End state: ${endState}\n`);
 
+    const uploadFiles = await listUploadFixtures(this.config.fixturesDir);
+
     while (!completed && this.state.getCurrentStepNumber() < this.config.maxSteps) {
-      const pageState = await this.browser.capturePageState();
+      await this.browser.beginStep(`Step ${this.state.getCurrentStepNumber()}`);
+      const pageState = await this.observe();
+      pageState.uploadFiles = uploadFiles;
+      pageState.secretNames = this.secretNames;
+      if (this.config.observationMode !== 'accessibility') {
+        pageState.ranking = rankElements(pageState.interactiveElements, {
+          task: userTask,
+          endState,
+          viewport: { width: this.config.viewportWidth, height: this.config.viewportHeight },
+          tokenBudget: this.config.elementTokenBudget,
+        });
+        this.logRanking(pageState);
+        // Only elements the prompt lists get a mark, so every number on the screenshot has a line to check against
+        if (this.config.setOfMarks) {
+          pageState.markedScreenshotBase64 = await this.browser.captureMarkedScreenshot(
+            pageState.interactiveElements,
+            pageState.ranking.selected.map(({ index }) => index)
+          );
+        }
+      }
       const history = this.state.getHistory();
 
       console.log('Determining next action...');
-      const decision = await this.llm.determineNextAction(
+      const requestStart = Date.now();
+      let decision = await this.llm.determineNextAction(
         userTask,
         pageState,
         history,
         endState
       );
+      const metrics = this.takeMetrics(requestStart);
 
+      decision = resolveElementIndex(decision, pageState);
       console.log('Decision:', decision);
 
+      let review: ReviewOutcome | undefined;
+      if (this.reviewer) {
+        review = await this.reviewer.review(decision, pageState);
+        decision = review.decision;
+      }
+
       const stepNumber = this.state.getCurrentStepNumber();
       const taskPath = this.state.getTaskPath();
       const screenshotPath = `${taskPath}/step-${stepNumber}-${decision.action}.png`;
+      const annotatedScreenshotPath = await this.saveAnnotatedScreenshot(decision, pageState, stepNumber);
 
-      let executedAction: ActionExecuted;
-
-      switch (decision.action) {
-        case 'click':
-          if (!decision.selector) {
-            throw new Error('Click action requires selector');
-          }
-          // Find the element's bounding box from the scraped page state
-          const targetElement = pageState.interactiveElements.find(
-            el => el.selector === decision.selector
-          );
-          const targetBox = targetElement?.boundingBox;
-          
-          const coordinates = await this.browser.click(decision.selector, targetBox);
-          executedAction = {
-            type: 'click',
-            selector: decision.selector,
-            coordinates,
-          };
-          break;
-
-        case 'type':
-          if (!decision.selector || !decision.text) {
-            throw new Error('Type action requires selector and text');
-          }
-          await this.browser.type(decision.selector, decision.text);
-          executedAction = {
-            type: 'type',
-            selector: decision.selector,
-            text: decision.text,
-          };
-          break;
-
-        case 'navigate':
-          executedAction = {
-            type: 'navigate',
-            url: pageState.url,
-          };
-          break;
-
-        case 'complete':
-          executedAction = {
-            type: 'complete',
-          };
-          completed = true;
-          break;
-
-        default:
-          throw new Error(`Unknown action type: ${decision.action}`);
+      const executedAction = await this.executeAction(decision, pageState);
+      if (decision.element !== undefined) {
+        executedAction.elementIndex = decision.element;
+      }
+      const framePath = this.findTarget(decision, pageState)?.framePath;
+      if (framePath && executedAction.selector) {
+        executedAction.framePath = framePath;
+      }
+      if (executedAction.type === 'complete') {
+        completed = true;
       }
 
       await this.browser.saveScreenshot(screenshotPath);
       
-      const postActionState = await this.browser.capturePageState();
+      const postActionState = await this.observe();
+      // Dialogs were answered and downloads saved while the action ran; they belong to this step
+      Object.assign(postActionState, await this.browser.collectEvents());
+
+      let verification: StepVerification | undefined;
+      if (executedAction.type !== 'complete') {
+        verification = verifyStep(pageState, postActionState, executedAction, history);
+        if (verification.noOp && verification.repeatCount >= this.config.loopThreshold) {
+          console.log(`Loop detected: ${executedAction.type} ${executedAction.selector ?? ''} repeated ${verification.repeatCount} times`);
+          verification.recovery = await this.recoverFromLoop(postActionState);
+          verification.observation = describeVerification(verification, executedAction, postActionState);
+        }
+        console.log(`Verification: ${verification.observation}`);
+      }
       
-      const actionDescription = this.generateActionDescription(executedAction, decision.reasoning, postActionState);
+      const actionDescription = generateActionDescription(executedAction, decision.reasoning, postActionState);
       
-      const uiStateData = {
+      const uiStateData: UIStateRecord = {
         stepNumber: stepNumber,
         action: executedAction,
         reasoning: decision.reasoning,
@@ -202,18 +310,16 @@ export class Agent {
           title: postActionState.title,
         },
         screenshotPath: screenshotPath,
+        annotatedScreenshotPath,
         timestamp: new Date(),
+        verification,
+        humanOverride: review?.humanOverride,
+        originalDecision: review?.originalDecision,
+        metrics,
       };
 
-      const uiStatePath = `${taskPath}/ui-state-${stepNumber}.json`;
-      await fs.writeFile(uiStatePath, JSON.stringify(uiStateData, null, 2), 'utf-8');
-
-      const elementsPath = this.state.getElementsPath();
-      const elementsFilePath = `${elementsPath}/elements-${stepNumber}.json`;
-      await this.browser.saveElementsToJson(postActionState.interactiveElements, elementsFilePath);
-      
-      this.state.addStep(executedAction, decision.reasoning, screenshotPath);
-      this.state.printStep(stepNumber, decision.reasoning, executedAction);
+      await this.state.recordStep(uiStateData, postActionState, pageState);
+      this.state.printStep(stepNumber, decision.reasoning, executedAction, review?.humanOverride);
 
       if (decision.completed) {
         completed = true;
@@ -223,58 +329,185 @@ export class Agent {
     if (!completed) {
       console.log(`\nWarning: Reached max steps (${this.config.maxSteps}) without completion`);
     }
+
+    return completed;
   }
 
-  private sanitizeTaskName(task: string): string {
-    return task
-      .toLowerCase()
-      .replace(/[^a-z0-9\s-]/g, '')
-      .replace(/\s+/g, '-')
-      .slice(0, 50);
+  // The accessibility tree is only captured when the prompt uses it, and then for the post-action page too
+  private async observe(): Promise<PageState> {
+    const state = await this.browser.capturePageState({
+      accessibilityTree: this.config.observationMode !== 'dom',
+    });
+    state.observationMode = this.config.observationMode;
+    state.accessibilityTokenBudget = this.config.elementTokenBudget;
+    return state;
   }
 
-  private generateActionDescription(action: ActionExecuted, reasoning: string, pageState: PageState): string {
-    let description = '';
-
-    switch (action.type) {
-      case 'click':
-        const clickedElement = pageState.interactiveElements.find(
-          el => el.selector === action.selector
-        );
-        description = `Click on the element with selector "${action.selector}"`;
-        if (clickedElement?.text) {
-          description += ` (text: "${clickedElement.text}")`;
+  // Escape closes stray menus and dialogs; if the page still hasn't moved, step back out of it.
+  // stuckState is the page after the repeated action, so only what Escape itself changed counts
+  private async recoverFromLoop(stuckState: PageState): Promise<'escape' | 'back'> {
+    await this.browser.pressKey('Escape');
+    const afterEscape = await this.browser.capturePageState();
+    if (!verifyStep(stuckState, afterEscape, { type: 'keypress', key: 'Escape' }, []).noOp) {
+      return 'escape';
+    }
+
+    try {
+      await this.browser.goBack();
+    } catch (error) {
+      console.log(`Could not go back during recovery: ${error}`);
+    }
+    return 'back';
+  }
+
+  // Captured before the action runs, while the target is still on screen where the user has to find it
+  private async saveAnnotatedScreenshot(
+    decision: LLMDecision,
+    pageState: PageState,
+    stepNumber: number
+  ): Promise<string | undefined> {
+    if (!this.config.annotateScreenshots || !decision.selector) {
+      return undefined;
+    }
+
+    const box = this.findTarget(decision, pageState)?.boundingBox;
+    if (!box) {
+      return undefined;
+    }
+
+    // Pointer actions land on the centre of the box, the same point BrowserController records as coordinates
+    const point = ['click', 'hover', 'type'].includes(decision.action)
+      ? { x: box.x + box.width / 2, y: box.y + box.height / 2 }
+      : undefined;
+
+    const path = `${this.state.getTaskPath()}/step-${stepNumber}-${decision.action}-annotated.png`;
+    try {
+      await this.browser.saveAnnotatedScreenshot(
+        path,
+        { box, point, label: String(stepNumber) },
+        this.config.annotationCropPadding
+      );
+      return path;
+    } catch (error) {
+      console.warn(`Could not save annotated screenshot for step ${stepNumber}:`, error);
+      return undefined;
+    }
+  }
+
+  private logRanking(pageState: PageState): void {
+    const ranking = pageState.ranking;
+    if (!ranking) return;
+
+    const top = ranking.selected
+      .slice(0, 5)
+      .map(({ index, score }) => `[${index}] ${score} "${elementLabel(pageState.interactiveElements[index]) || pageState.interactiveElements[index].selector}"`)
+      .join(', ');
+    console.log(
+      `Elements: ${ranking.selected.length}/${ranking.total} in prompt, ${ranking.duplicates} duplicates dropped, ` +
+      `~${ranking.estimatedTokens}/${ranking.tokenBudget} tokens. Top: ${top}`
+    );
+  }
+
+  // A set-of-marks index pins down the exact element even when several share a selector
+  private findTarget(decision: LLMDecision, pageState: PageState): UIElement | undefined {
+    if (decision.element !== undefined) {
+      return pageState.interactiveElements[decision.element];
+    }
+    return decision.selector ? findElement(pageState.interactiveElements, decision.selector, decision.frame) : undefined;
+  }
+
+  private async executeAction(decision: LLMDecision, pageState: PageState): Promise<ActionExecuted> {
+    // Find the element in the scraped page state for its bounding box and fallback locators
+    const target = this.findTarget(decision, pageState);
+
+    switch (decision.action) {
+      case 'click': {
+        if (!decision.selector) {
+          throw new Error('Click action requires selector');
         }
-        if (clickedElement?.role) {
-          description += ` which is a ${clickedElement.role}`;
+        const { coordinates, locator } = await this.browser.click(decision.selector, target);
+        return { type: 'click', selector: decision.selector, coordinates, resolvedBy: locator };
+      }
+
+      case 'type': {
+        if (!decision.selector || !decision.text) {
+          throw new Error('Type action requires selector and text');
         }
-        description += `. ${reasoning}`;
-        if (action.coordinates) {
-          description += ` The element is located at coordinates (${action.coordinates.x}, ${action.coordinates.y}).`;
+        const locator = await this.browser.type(decision.selector, decision.text, target);
+        return { type: 'type', selector: decision.selector, text: decision.text, resolvedBy: locator };
+      }
+
+      case 'select':
+        if (!decision.selector || !decision.value) {
+          throw new Error('Select action requires selector and value');
         }
-        break;
-
-      case 'type':
-        const typedElement = pageState.interactiveElements.find(
-          el => el.selector === action.selector
-        );
-        description = `Type "${action.text}" into the input field with selector "${action.selector}"`;
-        if (typedElement?.placeholder) {
-          description += ` (placeholder: "${typedElement.placeholder}")`;
+        await this.browser.selectOption(decision.selector, decision.value, target?.framePath);
+        return { type: 'select', selector: decision.selector, value: decision.value };
+
+      case 'hover': {
+        if (!decision.selector) {
+          throw new Error('Hover action requires selector');
         }
-        description += `. ${reasoning}`;
-        break;
+        const { coordinates, locator } = await this.browser.hover(decision.selector, target);
+        return { type: 'hover', selector: decision.selector, coordinates, resolvedBy: locator };
+      }
+
+      case 'scroll': {
+        const direction = decision.direction ?? 'down';
+        const amount = decision.amount ?? 500;
+        await this.browser.scroll(direction, amount, decision.selector, target?.framePath);
+        return { type: 'scroll', selector: decision.selector, direction, amount };
+      }
+
+      case 'keypress':
+        if (!decision.key) {
+          throw new Error('Keypress action requires key');
+        }
+        await this.browser.pressKey(decision.key, decision.selector, target?.framePath);
+        return { type: 'keypress', selector: decision.selector, key: decision.key };
+
+      case 'wait': {
+        const duration = decision.duration ?? 1000;
+        await this.browser.waitFor(duration, decision.selector, target?.framePath);
+        return { type: 'wait', selector: decision.selector, duration };
+      }
+
+      case 'back':
+        await this.browser.goBack();
+        return { type: 'back' };
 
       case 'navigate':
-        description = `Navigate to ${action.url}. ${reasoning}`;
-        break;
+        if (!decision.url) {
+          throw new Error('Navigate action requires url');
+        }
+        await this.browser.navigate(decision.url);
+        return { type: 'navigate', url: decision.url };
+
+      case 'upload': {
+        if (!decision.selector || !decision.file) {
+          throw new Error('Upload action requires selector and file');
+        }
+        const filePath = await resolveUploadFixture(this.config.fixturesDir, decision.file);
+        const locator = await this.browser.upload(decision.selector, filePath, target);
+        return { type: 'upload', selector: decision.selector, file: decision.file, resolvedBy: locator };
+      }
+
+      case 'switch_tab':
+        if (decision.tab === undefined) {
+          throw new Error('Switch tab action requires tab');
+        }
+        await this.browser.switchTab(decision.tab);
+        return { type: 'switch_tab', tab: decision.tab };
+
+      case 'close_tab':
+        await this.browser.closeTab(decision.tab);
+        return { type: 'close_tab', tab: decision.tab };
 
       case 'complete':
-        description = `Task completed successfully. ${reasoning}`;
-        break;
-    }
+        return { type: 'complete' };
 
-    return description;
+      default:
+        throw new Error(`Unknown action type: ${decision.action}`);
+    }
   }
 }
-
@@ -0,0 +1,259 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { Browser } from 'playwright';
+import { Agent } from './agent';
+import { BrowserController } from './browser-controller';
+import { TaskDataset, sanitizeTaskName } from './task-dataset';
+import { createLLMProvider } from './llm-provider';
+import {
+  BatchReport,
+  BatchTaskEntry,
+  BatchTaskResult,
+  LLMProviderConfig,
+  WorkflowConfig,
+} from './types';
+
+export class BatchRunner {
+  private config: Partial<WorkflowConfig>;
+  private llmConfig: LLMProviderConfig;
+  private concurrency: number;
+  private force: boolean;
+  private resume: boolean;
+
+  constructor(
+    config: Partial<WorkflowConfig>,
+    llmConfig: LLMProviderConfig,
+    options: { concurrency?: number; force?: boolean; resume?: boolean } = {}
+  ) {
+    // Nobody is watching a batch, so don't hold each browser open after the run
+    this.config = { ...config, keepAliveSeconds: config.keepAliveSeconds ?? 0 };
+    this.llmConfig = llmConfig;
+    this.concurrency = Math.max(1, options.concurrency ?? 1);
+    this.force = options.force ?? false;
+    this.resume = options.resume ?? false;
+
+    if (this.force && this.resume) {
+      throw new Error('--force re-captures tasks from scratch and --resume continues them; pick one');
+    }
+    if (config.interactive && this.concurrency > 1) {
+      throw new Error('Interactive review needs a single terminal; use --concurrency 1');
+    }
+  }
+
+  // Manifest is YAML (.yaml/.yml) or JSONL; plain-text lines are accepted as bare tasks
+  static async loadManifest(manifestPath: string): Promise<BatchTaskEntry[]> {
+    const content = await fs.readFile(manifestPath, 'utf-8');
+    const ext = path.extname(manifestPath).toLowerCase();
+
+    // Each entry keeps where it came from, so errors can point at the line (JSONL) or list position (YAML)
+    let entries: { entry: unknown; where: string }[];
+    if (ext === '.yaml' || ext === '.yml') {
+      const parsed: unknown = YAML.parse(content);
+      const list = Array.isArray(parsed) ? parsed : (parsed as { tasks?: unknown } | null)?.tasks ?? [];
+      if (!Array.isArray(list)) {
+        throw new Error(`${manifestPath} must be a list of tasks or have a "tasks" list`);
+      }
+      entries = list.map((entry, index) => ({ entry, where: `entry ${index + 1}` }));
+    } else {
+      entries = [];
+      content.split('\n').forEach((raw, index) => {
+        const line = raw.trim();
+        if (line.length === 0 || line.startsWith('#')) return;
+        const where = `line ${index + 1}`;
+        if (!line.startsWith('{')) {
+          entries.push({ entry: line, where });
+          return;
+        }
+        try {
+          entries.push({ entry: JSON.parse(line), where });
+        } catch (error: any) {
+          throw new Error(`${manifestPath} ${where} is not valid JSON: ${error?.message ?? error}`);
+        }
+      });
+    }
+
+    // Tasks that sanitize to the same folder would overwrite each other's captures
+    const folders = new Map<string, string>();
+    return entries.map(({ entry, where }) => {
+      const normalized = parseEntry(entry, `${manifestPath} ${where}`);
+      const folder = sanitizeTaskName(normalized.task);
+      const previous = folders.get(folder);
+      if (previous) {
+        throw new Error(`${manifestPath} ${where} captures into the same folder as ${previous} (${folder}); reword one of the tasks`);
+      }
+      folders.set(folder, where);
+      return normalized;
+    });
+  }
+
+  async run(manifestPath: string, reportPath?: string): Promise<BatchReport> {
+    const entries = await BatchRunner.loadManifest(manifestPath);
+    const startTime = new Date();
+    const results: BatchTaskResult[] = new Array(entries.length);
+
+    console.log(`\nStarting Batch...`);
+    console.log(`Manifest: ${manifestPath}`);
+    console.log(`Tasks: ${entries.length}, concurrency: ${this.concurrency}\n`);
+
+    const sharedBrowser = await this.prepareSharedBrowser();
+
+    try {
+      let next = 0;
+      const worker = async () => {
+        while (next < entries.length) {
+          const index = next++;
+          results[index] = await this.runTask(entries[index], sharedBrowser);
+        }
+      };
+
+      await Promise.all(
+        Array.from({ length: Math.min(this.concurrency, entries.length) }, () => worker())
+      );
+    } finally {
+      await sharedBrowser?.close();
+    }
+
+    const report: BatchReport = {
+      manifest: manifestPath,
+      concurrency: this.concurrency,
+      startTime,
+      endTime: new Date(),
+      total: results.length,
+      succeeded: results.filter(r => r.status === 'completed').length,
+      failed: results.filter(r => r.status === 'failed' || r.status === 'incomplete').length,
+      skipped: results.filter(r => r.status === 'skipped').length,
+      tasks: results,
+    };
+
+    const outPath = reportPath ?? `${this.config.screenshotDir ?? 'dataset'}/batch-report.json`;
+    await fs.mkdir(path.dirname(outPath), { recursive: true });
+    await fs.writeFile(outPath, JSON.stringify(report, null, 2), 'utf-8');
+
+    console.log(`\nBatch Summary:`);
+    console.log(`Succeeded: ${report.succeeded}, failed: ${report.failed}, skipped: ${report.skipped}`);
+    console.log(`Report saved to: ${outPath}`);
+
+    return report;
+  }
+
+  // With more than one worker, every task gets its own context in one shared browser.
+  // A persistent profile can't be opened twice, so its auth state is exported once and seeded into each context.
+  private async prepareSharedBrowser(): Promise<Browser | undefined> {
+    if (this.concurrency === 1) {
+      return undefined;
+    }
+
+    const headless = this.config.headless ?? false;
+    const slowMo = this.config.slowMo ?? 500;
+    const userDataDir = this.config.userDataDir ?? 'user-data-dir';
+
+    if (!this.config.storageStatePath && userDataDir) {
+      const storageStatePath = `${userDataDir}/storage-state.json`;
+      const profile = new BrowserController();
+      await profile.initialize({
+        headless: true,
+        slowMo: 0,
+        viewportWidth: this.config.viewportWidth ?? 1280,
+        viewportHeight: this.config.viewportHeight ?? 720,
+        userDataDir,
+      });
+      try {
+        await profile.saveStorageState(storageStatePath);
+      } finally {
+        await profile.close();
+      }
+      this.config = { ...this.config, storageStatePath };
+    }
+
+    return BrowserController.launchBrowser({ headless, slowMo });
+  }
+
+  private async runTask(entry: BatchTaskEntry, sharedBrowser?: Browser): Promise<BatchTaskResult> {
+    const taskPath = `${this.config.screenshotDir ?? 'dataset'}/${sanitizeTaskName(entry.task)}`;
+    const result: BatchTaskResult = {
+      task: entry.task,
+      tags: entry.tags,
+      taskPath,
+      status: 'failed',
+      success: false,
+      totalSteps: 0,
+      durationMs: 0,
+    };
+
+    if (!this.force && await this.isTaskCompleted(taskPath)) {
+      console.log(`Skipping (already captured): ${entry.task}`);
+      result.status = 'skipped';
+      result.success = true;
+      return result;
+    }
+
+    const startTime = Date.now();
+    try {
+      const llm = await createLLMProvider(this.llmConfig);
+      const agent = new Agent(llm, {
+        ...this.config,
+        maxSteps: entry.maxSteps ?? this.config.maxSteps,
+      });
+
+      const outcome = await agent.execute(entry.task, {
+        startUrl: entry.startUrl,
+        sharedBrowser,
+        resume: this.resume,
+      });
+
+      result.totalSteps = outcome.totalSteps;
+      result.success = outcome.completed;
+      result.status = outcome.completed ? 'completed' : 'incomplete';
+      if (!outcome.completed) {
+        result.failureReason = `Reached max steps (${entry.maxSteps ?? this.config.maxSteps ?? 20}) without completion`;
+      }
+    } catch (error: any) {
+      result.failureReason = error?.message ?? String(error);
+    }
+    result.durationMs = Date.now() - startTime;
+
+    return result;
+  }
+
+  // Summaries written before the completed flag existed only came from finished runs; status supersedes the flag
+  private async isTaskCompleted(taskPath: string): Promise<boolean> {
+    try {
+      const summary = await new TaskDataset(taskPath).loadSummary();
+      if (summary === null) return false;
+      return summary.status ? summary.status === 'completed' : summary.completed !== false;
+    } catch {
+      return false;
+    }
+  }
+}
+
+function parseEntry(entry: unknown, label: string): BatchTaskEntry {
+  if (typeof entry === 'string') {
+    entry = { task: entry };
+  }
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    throw new Error(`${label} must be a task string or an object`);
+  }
+
+  const { task, startUrl, maxSteps, tags } = entry as Record<string, unknown>;
+  if (typeof task !== 'string' || task.trim().length === 0) {
+    throw new Error(`${label} has no "task"`);
+  }
+  if (startUrl !== undefined && (typeof startUrl !== 'string' || !URL.canParse(startUrl))) {
+    throw new Error(`${label}: "startUrl" must be an absolute URL`);
+  }
+  if (maxSteps !== undefined && (typeof maxSteps !== 'number' || !Number.isInteger(maxSteps) || maxSteps < 1)) {
+    throw new Error(`${label}: "maxSteps" must be a positive whole number`);
+  }
+  if (tags !== undefined && (!Array.isArray(tags) || !tags.every(tag => typeof tag === 'string'))) {
+    throw new Error(`${label}: "tags" must be a list of strings`);
+  }
+
+  return {
+    task,
+    ...(startUrl !== undefined && { startUrl: startUrl as string }),
+    ...(maxSteps !== undefined && { maxSteps }),
+    ...(tags !== undefined && { tags: tags as string[] }),
+  };
+}
@@ -1,12 +1,48 @@
-import { chromium, Browser, BrowserContext, Page } from 'playwright';
-import { promises as fs } from 'fs';
-import { PageState, UIElement } from './types';
+import { chromium, Browser, BrowserContext, Download, Frame, FrameLocator, Locator, Page, Video } from 'playwright';
+import { createWriteStream, promises as fs, WriteStream } from 'fs';
+import path from 'path';
+import { SecretVault } from './secret-vault';
+import { buildAccessibilityTree, RawAccessibilityNode } from './accessibility-tree';
+import {
+  AccessibilityNode,
+  DebugRecordingOptions,
+  DialogEvent,
+  DialogPolicy,
+  DownloadRecord,
+  ElementLocator,
+  PageState,
+  RecordedUserEvent,
+  ScreenshotAnnotation,
+  TabInfo,
+  UIElement,
+} from './types';
 
 export class BrowserController {
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
   private page: Page | null = null;
   private userDataDir: string | null = null;
+  private ownsBrowser = false;
+  private tabIds = new Map<Page, number>();
+  private tabOpeners = new Map<Page, number>();
+  private nextTabId = 0;
+  private dialogPolicy: DialogPolicy = 'accept';
+  private downloadDir: string | null = null;
+  private dialogs: DialogEvent[] = [];
+  private navigationHandlers: ((url: string) => void)[] = [];
+  private downloads: Promise<DownloadRecord>[] = [];
+  private secrets = new SecretVault();
+  private recording: DebugRecordingOptions | null = null;
+  private consoleLog: WriteStream | null = null;
+  private videos: { tabId: number; video: Video }[] = [];
+  private traceGroupOpen = false;
+
+  static async launchBrowser(config: { headless: boolean; slowMo: number }): Promise<Browser> {
+    return chromium.launch({
+      headless: config.headless,
+      slowMo: config.slowMo,
+    });
+  }
 
   async initialize(config: {
     headless: boolean;
@@ -14,9 +50,21 @@ export class BrowserController {
     viewportWidth: number;
     viewportHeight: number;
     userDataDir?: string;
+    storageStatePath?: string; // Seed a fresh context with saved cookies/localStorage instead of the profile
+    sharedBrowser?: Browser; // Open the context in an existing browser (only the context is closed)
+    dialogPolicy?: DialogPolicy;
+    downloadDir?: string; // Save downloads here; without it they are only reported
+    secrets?: SecretVault; // Fills {{secret:name}} placeholders when typing
+    recording?: DebugRecordingOptions; // Trace, HAR, video and console log for debugging the session
   }): Promise<void> {
+    this.dialogPolicy = config.dialogPolicy ?? 'accept';
+    this.downloadDir = config.downloadDir ?? null;
+    this.secrets = config.secrets ?? new SecretVault();
+    this.recording = config.recording ?? null;
+    const recordingOptions = await this.prepareRecording(config.viewportWidth, config.viewportHeight);
+
     // Use persistent context if userDataDir is provided
-    if (config.userDataDir) {
+    if (config.userDataDir && !config.storageStatePath && !config.sharedBrowser) {
       this.userDataDir = config.userDataDir;
       
       // Ensure directory exists
@@ -31,24 +79,256 @@ export class BrowserController {
           height: config.viewportHeight,
         },
         acceptDownloads: true,
-        channel: 'chrome'
+        channel: 'chrome',
+        ...recordingOptions,
       });
 
       // Get existing page or create new one
       this.page = this.context.pages()[0] || await this.context.newPage();
     } else {
       // Standard non-persistent mode
-      this.browser = await chromium.launch({
-        headless: config.headless,
-        slowMo: config.slowMo,
+      this.ownsBrowser = !config.sharedBrowser;
+      this.browser = config.sharedBrowser ?? await BrowserController.launchBrowser(config);
+
+      this.context = await this.browser.newContext({
+        viewport: {
+          width: config.viewportWidth,
+          height: config.viewportHeight,
+        },
+        acceptDownloads: true,
+        storageState: config.storageStatePath,
+        ...recordingOptions,
       });
+      this.page = await this.context.newPage();
+    }
+
+    if (this.recording?.trace) {
+      await this.context.tracing.start({ screenshots: true, snapshots: true });
+    }
+
+    this.trackTabs();
+  }
+
+  // Opens browser-console.log and returns the context options that turn on HAR and video recording
+  private async prepareRecording(
+    viewportWidth: number,
+    viewportHeight: number
+  ): Promise<{ recordHar?: { path: string }; recordVideo?: { dir: string; size: { width: number; height: number } } }> {
+    if (!this.recording) return {};
+
+    const { dir } = this.recording;
+    await fs.mkdir(dir, { recursive: true });
+    this.consoleLog = createWriteStream(`${dir}/browser-console.log`, { flags: 'a' });
+
+    return {
+      recordHar: this.recording.har ? { path: `${dir}/network.har` } : undefined,
+      recordVideo: this.recording.video
+        ? { dir: `${dir}/video`, size: { width: viewportWidth, height: viewportHeight } }
+        : undefined,
+    };
+  }
+
+  // Marks where a step starts in the console log, and groups its actions under one heading in the trace viewer
+  async beginStep(label: string): Promise<void> {
+    if (!this.context || !this.recording) return;
+
+    this.consoleLog?.write(`${new Date().toISOString()} --- ${label} ---\n`);
+    if (this.recording.trace) {
+      if (this.traceGroupOpen) {
+        await this.context.tracing.groupEnd();
+      }
+      await this.context.tracing.group(label);
+      this.traceGroupOpen = true;
+    }
+  }
 
-      this.page = await this.browser.newPage();
-      await this.page.setViewportSize({
-        width: config.viewportWidth,
-        height: config.viewportHeight,
+  // New tabs and popups take focus, as they would for a person; closing the active tab falls back to the newest one left
+  private trackTabs(): void {
+    if (!this.context || !this.page) return;
+
+    for (const page of this.context.pages()) {
+      this.registerTab(page);
+    }
+
+    this.context.on('page', (page) => {
+      const opener = this.page ? this.tabIds.get(this.page) : undefined;
+      this.registerTab(page, opener);
+      console.log(`New tab opened (tab ${this.tabIds.get(page)}), switching to it`);
+      this.page = page;
+    });
+  }
+
+  private registerTab(page: Page, openerId?: number): void {
+    if (this.tabIds.has(page)) return;
+
+    this.tabIds.set(page, this.nextTabId++);
+    if (openerId !== undefined) {
+      this.tabOpeners.set(page, openerId);
+    }
+
+    page.on('framenavigated', (frame) => {
+      if (frame === page.mainFrame()) {
+        this.navigationHandlers.forEach(handler => handler(frame.url()));
+      }
+    });
+
+    page.on('dialog', (dialog) => {
+      const accept = this.dialogPolicy === 'accept';
+      const message = this.secrets.redact(dialog.message());
+      this.dialogs.push({
+        type: dialog.type(),
+        message,
+        defaultValue: dialog.type() === 'prompt' ? this.secrets.redact(dialog.defaultValue()) : undefined,
+        response: accept ? 'accepted' : 'dismissed',
+        tabId: this.tabIds.get(page),
+        timestamp: new Date().toISOString(),
+      });
+      console.log(`${dialog.type()} dialog ${accept ? 'accepted' : 'dismissed'}: ${message}`);
+      // A listener takes over from Playwright's auto-dismiss, so every dialog has to be answered here
+      (accept ? dialog.accept() : dialog.dismiss()).catch(() => undefined);
+    });
+
+    page.on('download', (download) => {
+      this.downloads.push(this.saveDownload(download, this.tabIds.get(page)));
+    });
+
+    if (this.consoleLog) {
+      page.on('console', (message) => {
+        const { url, lineNumber } = message.location();
+        this.writeConsoleLog(page, message.type(), `${message.text()}${url ? ` (${url}:${lineNumber})` : ''}`);
+      });
+      page.on('pageerror', (error) => {
+        this.writeConsoleLog(page, 'pageerror', error.stack ?? error.message);
       });
     }
+
+    const video = page.video();
+    if (video) {
+      this.videos.push({ tabId: this.tabIds.get(page)!, video });
+    }
+
+    page.on('close', () => {
+      this.tabIds.delete(page);
+      this.tabOpeners.delete(page);
+      if (this.page === page) {
+        const remaining = this.context?.pages().filter(p => !p.isClosed()) ?? [];
+        if (remaining.length > 0) {
+          this.page = remaining[remaining.length - 1];
+          console.log(`Active tab closed, switching to tab ${this.tabIds.get(this.page)}`);
+        }
+      }
+    });
+  }
+
+  async listTabs(): Promise<TabInfo[]> {
+    if (!this.context) throw new Error('Browser not initialized');
+
+    const tabs: TabInfo[] = [];
+    for (const [page, id] of this.tabIds) {
+      if (page.isClosed()) continue;
+      tabs.push({
+        id,
+        url: this.secrets.redact(page.url()),
+        title: this.secrets.redact(await page.title().catch(() => '')),
+        active: page === this.page,
+        openerId: this.tabOpeners.get(page),
+      });
+    }
+    return tabs.sort((a, b) => a.id - b.id);
+  }
+
+  getActiveTabId(): number | undefined {
+    return this.page ? this.tabIds.get(this.page) : undefined;
+  }
+
+  async switchTab(id: number): Promise<void> {
+    const page = this.findTab(id);
+    this.page = page;
+    await page.bringToFront();
+    await page.waitForTimeout(500);
+  }
+
+  async closeTab(id?: number): Promise<void> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    const page = id === undefined ? this.page : this.findTab(id);
+    if (this.tabIds.size <= 1) {
+      throw new Error('Cannot close the last open tab');
+    }
+    // The close listener moves focus when this was the active tab
+    await page.close();
+    await this.page.bringToFront();
+    await this.page.waitForTimeout(500);
+  }
+
+  // Console text can echo typed secrets, so it goes through the vault before reaching browser-console.log
+  private writeConsoleLog(page: Page, type: string, text: string): void {
+    this.consoleLog?.write(`${new Date().toISOString()} [tab ${this.tabIds.get(page) ?? '?'}] ${type}: ${this.secrets.redact(text)}\n`);
+  }
+
+  // Dialogs and downloads since the last call; waits for pending downloads to finish saving
+  async collectEvents(): Promise<{ dialogs: DialogEvent[]; downloads: DownloadRecord[] }> {
+    const dialogs = this.dialogs.splice(0);
+    const downloads = await Promise.all(this.downloads.splice(0));
+    return { dialogs, downloads };
+  }
+
+  private async saveDownload(download: Download, tabId?: number): Promise<DownloadRecord> {
+    const record: DownloadRecord = {
+      url: download.url(),
+      suggestedFilename: download.suggestedFilename(),
+      tabId,
+      timestamp: new Date().toISOString(),
+    };
+
+    try {
+      if (this.downloadDir) {
+        await fs.mkdir(this.downloadDir, { recursive: true });
+        const target = await this.uniqueDownloadPath(download.suggestedFilename());
+        await download.saveAs(target);
+        record.path = target;
+        record.size = (await fs.stat(target)).size;
+      }
+      const failure = await download.failure();
+      if (failure) {
+        record.failure = failure;
+      }
+    } catch (error) {
+      record.failure = error instanceof Error ? error.message : String(error);
+    }
+
+    console.log(record.failure
+      ? `Download of ${record.suggestedFilename} failed: ${record.failure}`
+      : `Downloaded ${record.suggestedFilename}${record.path ? ` to ${record.path}` : ''}`);
+    return record;
+  }
+
+  // Two downloads with the same suggested name keep both files: report.csv, report-1.csv, ...
+  private async uniqueDownloadPath(suggestedFilename: string): Promise<string> {
+    const name = path.basename(suggestedFilename) || 'download';
+    const ext = path.extname(name);
+    const stem = name.slice(0, name.length - ext.length);
+
+    for (let i = 0; ; i++) {
+      const candidate = path.join(this.downloadDir!, i === 0 ? name : `${stem}-${i}${ext}`);
+      try {
+        await fs.access(candidate);
+      } catch {
+        return candidate;
+      }
+    }
+  }
+
+  private findTab(id: number): Page {
+    for (const [page, tabId] of this.tabIds) {
+      if (tabId === id && !page.isClosed()) return page;
+    }
+    throw new Error(`No open tab with id ${id}`);
+  }
+
+  async saveStorageState(path: string): Promise<void> {
+    if (!this.context) throw new Error('Browser not initialized');
+    await this.context.storageState({ path });
   }
 
   async navigate(url: string): Promise<void> {
@@ -60,33 +340,481 @@ export class BrowserController {
     await this.page.waitForTimeout(2000);
   }
 
-  async capturePageState(): Promise<PageState> {
+  async capturePageState(options: { accessibilityTree?: boolean } = {}): Promise<PageState> {
     if (!this.page) throw new Error('Browser not initialized');
 
-    const url = this.page.url();
-    const title = await this.page.title();
+    // A freshly opened tab may still be loading
+    await this.page.waitForLoadState('domcontentloaded', { timeout: 10000 }).catch(() => undefined);
+
+    // Anything read back from the page may contain a typed secret, so it is redacted before leaving the controller
+    const url = this.secrets.redact(this.page.url());
+    const title = this.secrets.redact(await this.page.title());
     const screenshotBuffer = await this.page.screenshot({ type: 'png' });
     const screenshotBase64 = screenshotBuffer.toString('base64');
 
-    const interactiveElements = await this.extractInteractiveElements();
+    const interactiveElements = (await this.extractInteractiveElements()).map(element => this.redactElement(element));
 
-    return {
+    const state: PageState = {
       url,
       title,
       interactiveElements,
       screenshotBase64,
+      tabs: await this.listTabs(),
+      activeTabId: this.getActiveTabId(),
     };
+    if (options.accessibilityTree) {
+      state.accessibilityTree = await this.captureAccessibilityTree();
+    }
+    return state;
+  }
+
+  // Computed roles, names and states as the browser exposes them to assistive technology, read over CDP.
+  // The tree covers the top document only; iframe contents are in the DOM element list
+  async captureAccessibilityTree(): Promise<AccessibilityNode | undefined> {
+    if (!this.page || !this.context) throw new Error('Browser not initialized');
+
+    const session = await this.context.newCDPSession(this.page);
+    try {
+      const { nodes } = await session.send('Accessibility.getFullAXTree');
+      const tree = buildAccessibilityTree(nodes as RawAccessibilityNode[]);
+      return tree ? this.redactAccessibilityNode(tree) : undefined;
+    } finally {
+      await session.detach().catch(() => undefined);
+    }
   }
 
-  async click(selector: string, targetBox?: { x: number; y: number; width: number; height: number }): Promise<{ x: number; y: number }> {
+  async click(
+    selector: string,
+    target?: UIElement,
+    framePath: string[] | undefined = target?.framePath
+  ): Promise<{ coordinates: { x: number; y: number }; locator: ElementLocator }> {
     if (!this.page) throw new Error('Browser not initialized');
 
-    const locator = this.page.locator(selector);
-    const count = await locator.count();
+    const { element, box, locator } = await this.resolveWithFallback(selector, target, framePath);
+
+    const x = box.x + box.width / 2;
+    const y = box.y + box.height / 2;
+
+    console.log(`Clicking at: (${x}, ${y})`);
+
+    if (element) {
+      await element.click();
+    } else {
+      await this.page.mouse.click(x, y);
+    }
+    await this.page.waitForTimeout(1000);
+
+    return { coordinates: { x, y }, locator };
+  }
+
+  async hover(
+    selector: string,
+    target?: UIElement,
+    framePath: string[] | undefined = target?.framePath
+  ): Promise<{ coordinates: { x: number; y: number }; locator: ElementLocator }> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    const { element, box, locator } = await this.resolveWithFallback(selector, target, framePath);
+
+    const x = box.x + box.width / 2;
+    const y = box.y + box.height / 2;
+
+    console.log(`Hovering at: (${x}, ${y})`);
+
+    if (element) {
+      await element.hover();
+    } else {
+      await this.page.mouse.move(x, y);
+    }
+    await this.page.waitForTimeout(1000);
+
+    return { coordinates: { x, y }, locator };
+  }
+
+  async selectOption(selector: string, value: string, framePath?: string[]): Promise<void> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    const element = this.scopeFor(framePath).locator(selector).first();
+    // Match by visible label first, since that's what the model sees; fall back to the option value
+    try {
+      await element.selectOption({ label: value }, { timeout: 5000 });
+    } catch {
+      await element.selectOption(value);
+    }
+    await this.page.waitForTimeout(500);
+  }
+
+  async scroll(direction: 'up' | 'down', amount: number = 500, selector?: string, framePath?: string[]): Promise<void> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    // The wheel scrolls whatever is under the mouse, so park it over the list being scrolled
+    let box: { x: number; y: number; width: number; height: number } | null = null;
+    if (selector) {
+      box = await this.scopeFor(framePath).locator(selector).first().boundingBox();
+    }
+    const viewport = this.page.viewportSize();
+    const x = box ? box.x + box.width / 2 : (viewport?.width ?? 0) / 2;
+    const y = box ? box.y + box.height / 2 : (viewport?.height ?? 0) / 2;
+
+    await this.page.mouse.move(x, y);
+    await this.page.mouse.wheel(0, direction === 'down' ? amount : -amount);
+    await this.page.waitForTimeout(500);
+  }
+
+  async pressKey(key: string, selector?: string, framePath?: string[]): Promise<void> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    if (selector) {
+      await this.scopeFor(framePath).locator(selector).first().press(key);
+    } else {
+      await this.page.keyboard.press(key);
+    }
+    await this.page.waitForTimeout(500);
+  }
+
+  async waitFor(duration: number = 1000, selector?: string, framePath?: string[]): Promise<void> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    const timeout = Math.min(duration, 30000);
+    if (selector) {
+      await this.scopeFor(framePath).locator(selector).first().waitFor({ state: 'visible', timeout });
+    } else {
+      await this.page.waitForTimeout(timeout);
+    }
+  }
+
+  async goBack(): Promise<void> {
+    if (!this.page) throw new Error('Browser not initialized');
+    await this.page.goBack({ waitUntil: 'domcontentloaded', timeout: 30000 });
+    await this.page.waitForTimeout(1000);
+  }
+
+  async clickAt(x: number, y: number): Promise<{ x: number; y: number }> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    console.log(`Clicking at: (${x}, ${y})`);
+
+    await this.page.mouse.click(x, y);
+    await this.page.waitForTimeout(1000);
+
+    return { x, y };
+  }
+
+  async hoverAt(x: number, y: number): Promise<{ x: number; y: number }> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    await this.page.mouse.move(x, y);
+    await this.page.waitForTimeout(1000);
+
+    return { x, y };
+  }
+
+  async type(
+    selector: string,
+    text: string,
+    target?: UIElement,
+    framePath: string[] | undefined = target?.framePath
+  ): Promise<ElementLocator> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    const { element, box, locator } = await this.resolveWithFallback(selector, target, framePath);
+    // Placeholders are swapped for real values only here; callers keep logging and storing the placeholder text
+    const value = this.secrets.resolve(text);
+
+    if (element) {
+      await element.click();
+      await element.fill(value);
+    } else {
+      await this.page.mouse.click(box.x + box.width / 2, box.y + box.height / 2);
+      await this.page.keyboard.type(value);
+    }
+    await this.page.waitForTimeout(500);
+
+    return locator;
+  }
+
+  // Sets the file on an <input type="file"> directly, or answers the file chooser a styled upload button opens
+  async upload(
+    selector: string,
+    filePath: string,
+    target?: UIElement,
+    framePath: string[] | undefined = target?.framePath
+  ): Promise<ElementLocator> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    // File inputs are often hidden behind a label or button, so don't require them to be visible
+    const input = this.scopeFor(framePath).locator(selector).first();
+    const isFileInput = await input
+      .evaluate((el) => el instanceof HTMLInputElement && el.type === 'file', undefined, { timeout: 5000 })
+      .catch(() => false);
+    if (isFileInput) {
+      await input.setInputFiles(filePath);
+      await this.page.waitForTimeout(500);
+      return { strategy: 'selector', value: selector };
+    }
+
+    const { element, box, locator } = await this.resolveWithFallback(selector, target, framePath);
+    const chooser = this.page.waitForEvent('filechooser', { timeout: 5000 });
+    if (element) {
+      await element.click();
+    } else {
+      await this.page.mouse.click(box.x + box.width / 2, box.y + box.height / 2);
+    }
+    try {
+      await (await chooser).setFiles(filePath);
+    } catch {
+      throw new Error(`Element did not open a file chooser: ${selector}`);
+    }
+    await this.page.waitForTimeout(500);
+
+    return locator;
+  }
+
+  async typeAt(x: number, y: number, text: string): Promise<void> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    // Focus whatever sits at the coordinates, then type through the keyboard
+    await this.page.mouse.click(x, y);
+    await this.page.keyboard.type(this.secrets.resolve(text));
+    await this.page.waitForTimeout(500);
+  }
+
+  async hasElement(selector: string, timeout: number = 5000, framePath?: string[]): Promise<boolean> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    try {
+      await this.scopeFor(framePath).locator(selector).first().waitFor({ state: 'visible', timeout });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async saveScreenshot(path: string): Promise<void> {
+    if (!this.page) throw new Error('Browser not initialized');
+    await this.page.screenshot({ path, type: 'png' });
+  }
+
+  // Set-of-marks: numbers every visible element in the screenshot by its index in interactiveElements
+  // Numbers keep their position in elements; pass indexes to mark only those
+  async captureMarkedScreenshot(elements: UIElement[], indexes?: number[]): Promise<string> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    const viewport = this.page.viewportSize();
+    const marks = (indexes ?? elements.map((_, index) => index))
+      .map(index => ({ index, box: elements[index]?.boundingBox }))
+      .filter((mark): mark is { index: number; box: NonNullable<UIElement['boundingBox']> } =>
+        !!mark.box &&
+        mark.box.width > 0 &&
+        mark.box.height > 0 &&
+        (!viewport || (mark.box.x < viewport.width && mark.box.y < viewport.height &&
+          mark.box.x + mark.box.width > 0 && mark.box.y + mark.box.height > 0))
+      );
+
+    await this.page.evaluate(drawMarksOverlay, marks);
+    try {
+      const screenshot = await this.page.screenshot({ type: 'png' });
+      return screenshot.toString('base64');
+    } finally {
+      await this.page.evaluate(() => document.getElementById('__wfc-marks')?.remove());
+    }
+  }
+
+  // Draws the annotation as a temporary overlay, so the image is exactly what the page showed plus the markings
+  async saveAnnotatedScreenshot(path: string, annotation: ScreenshotAnnotation, cropPadding?: number): Promise<void> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    await this.page.evaluate(drawAnnotationOverlay, annotation);
+    try {
+      const viewport = this.page.viewportSize();
+      let clip: { x: number; y: number; width: number; height: number } | undefined;
+
+      if (cropPadding !== undefined && annotation.box && viewport) {
+        const x = Math.max(0, Math.floor(annotation.box.x - cropPadding));
+        const y = Math.max(0, Math.floor(annotation.box.y - cropPadding));
+        const right = Math.min(viewport.width, Math.ceil(annotation.box.x + annotation.box.width + cropPadding));
+        const bottom = Math.min(viewport.height, Math.ceil(annotation.box.y + annotation.box.height + cropPadding));
+        if (right > x && bottom > y) {
+          clip = { x, y, width: right - x, height: bottom - y };
+        }
+      }
+
+      await this.page.screenshot({ path, type: 'png', clip });
+    } finally {
+      await this.page.evaluate(() => document.getElementById('__wfc-annotation')?.remove());
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.stopTrace();
+
+    // The HAR and videos are only finished once the context closes, so it always closes before the browser.
+    // Persistent and shared-browser modes close just the context
+    if (this.context) {
+      await this.context.close();
+    }
+    if (this.browser && this.ownsBrowser) {
+      await this.browser.close();
+    }
+
+    await this.saveVideos();
+    if (this.consoleLog) {
+      await new Promise<void>(resolve => this.consoleLog!.end(resolve));
+      this.consoleLog = null;
+    }
+  }
+
+  // Runs on the way out of a failed capture too, so a broken page must not hide the original error
+  private async stopTrace(): Promise<void> {
+    if (!this.context || !this.recording?.trace) return;
+    try {
+      if (this.traceGroupOpen) {
+        await this.context.tracing.groupEnd();
+        this.traceGroupOpen = false;
+      }
+      await this.context.tracing.stop({ path: `${this.recording.dir}/trace.zip` });
+    } catch (error) {
+      console.warn(`Could not save trace: ${(error as Error).message}`);
+    }
+  }
+
+  // Playwright names videos with random ids; rename them after the tab they recorded
+  private async saveVideos(): Promise<void> {
+    if (!this.recording) return;
+    for (const { tabId, video } of this.videos) {
+      try {
+        await fs.rename(await video.path(), `${this.recording.dir}/video/tab-${tabId}.webm`);
+      } catch (error) {
+        console.warn(`Could not save video for tab ${tabId}: ${(error as Error).message}`);
+      }
+    }
+    this.videos = [];
+  }
 
+  // Reports clicks, typing, selects, key presses and scrolls the user performs by hand
+  async captureUserEvents(handler: (event: RecordedUserEvent) => void): Promise<void> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    // Registered on the context so tabs and popups opened during the recording report events too.
+    // The script also runs in iframes, where coordinates are relative to the frame; they are shifted into page
+    // coordinates like extracted element boxes. Events go through a queue so the shift can't reorder them
+    let pending = Promise.resolve();
+    await this.context!.exposeBinding('__wfcRecordEvent', (source, event: RecordedUserEvent) => {
+      pending = pending
+        .then(async () => {
+          const { x, y } = event;
+          if (source.frame !== source.page.mainFrame() && x !== undefined && y !== undefined) {
+            const placement = await this.locateFrame(source.frame);
+            if (!placement) return;
+            event = { ...event, x: x + placement.offset.x, y: y + placement.offset.y };
+          }
+          handler(event);
+        })
+        .catch(error => console.warn(`Dropped a recorded event: ${(error as Error).message}`));
+    });
+    // The init script covers documents loaded from now on; evaluate covers the one already open
+    await this.context!.addInitScript(installRecorderScript);
+    await this.page.evaluate(installRecorderScript);
+  }
+
+  // Top-level navigations in any tab, including tabs opened after this is called
+  onNavigation(handler: (url: string) => void): void {
+    if (!this.page) throw new Error('Browser not initialized');
+    this.navigationHandlers.push(handler);
+  }
+
+  waitForClose(): Promise<void> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    const page = this.page;
+    return new Promise(resolve => page.once('close', () => resolve()));
+  }
+
+  isClosed(): boolean {
+    return !this.page || this.page.isClosed();
+  }
 
-    let elementToClick = null;
-    let clickBoundingBox = null;
+  async keepAlive(seconds: number): Promise<void> {
+    if (!this.page) throw new Error('Browser not initialized');
+    await this.page.waitForTimeout(seconds * 1000);
+  }
+
+  // Text-based selectors are redacted too; an element whose selector held a secret then resolves through its other locators
+  // Every string in the element, nested ones included (parentSelector, shadowPath, locators), so a typed secret
+  // can't reach elements-N.json through a field that happens to quote page text
+  private redactElement(element: UIElement): UIElement {
+    return this.redactStrings(element);
+  }
+
+  private redactStrings<T>(value: T): T {
+    if (typeof value === 'string') {
+      return this.secrets.redact(value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactStrings(item)) as T;
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.redactStrings(item)])
+      ) as T;
+    }
+    return value;
+  }
+
+  private redactAccessibilityNode(node: AccessibilityNode): AccessibilityNode {
+    return this.redactStrings(node);
+  }
+
+  // Try the primary selector, then each recorded fallback locator; a 'bbox' fallback yields no element, only a box
+  private async resolveWithFallback(
+    selector: string,
+    target?: UIElement,
+    framePath?: string[]
+  ): Promise<{ element: Locator | null; box: { x: number; y: number; width: number; height: number }; locator: ElementLocator }> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    const candidates: ElementLocator[] = [
+      { strategy: 'selector', value: selector },
+      ...(target?.locators ?? []),
+    ];
+
+    for (const candidate of candidates) {
+      if (candidate.strategy === 'bbox') {
+        const [x, y, width, height] = candidate.value.split(',').map(Number);
+        console.log(`No locator resolved for ${selector}, falling back to its bounding box`);
+        return { element: null, box: { x, y, width, height }, locator: candidate };
+      }
+
+      try {
+        if (await this.scopeFor(framePath).locator(candidate.value).count() === 0) {
+          continue;
+        }
+        const { element, box } = await this.resolveTarget(candidate.value, target?.boundingBox, framePath);
+        if (candidate.strategy !== 'selector') {
+          console.log(`Selector ${selector} did not resolve, using ${candidate.strategy} locator: ${candidate.value}`);
+        }
+        return { element, box, locator: candidate };
+      } catch {
+        // Invalid or invisible - try the next strategy
+      }
+    }
+
+    throw new Error(`Element not found or not visible: ${selector}`);
+  }
+
+  private async resolveTarget(
+    selector: string,
+    targetBox?: { x: number; y: number; width: number; height: number },
+    framePath?: string[]
+  ): Promise<{ element: Locator; box: { x: number; y: number; width: number; height: number } }> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    // Bounding boxes from a FrameLocator are in page coordinates, like the extracted ones
+    const locator = this.scopeFor(framePath).locator(selector);
+    const count = await locator.count();
+
+    let elementToUse = null;
+    let boundingBox = null;
 
     if (targetBox && count > 1) {
       // Loop through all elements and find the one matching the target bounding box
@@ -108,342 +836,675 @@ export class BrowserController {
           if (diff < smallestDifference) {
             smallestDifference = diff;
             bestMatch = element;
-            clickBoundingBox = box;
+            boundingBox = box;
           }
         }
       }
 
       if (bestMatch) {
-        elementToClick = bestMatch;
+        elementToUse = bestMatch;
       }
     }
 
     // Fallback: if no target box provided or no match found, use first element
-    if (!elementToClick) {
-      elementToClick = locator.first();
-      clickBoundingBox = await elementToClick.boundingBox();
+    if (!elementToUse) {
+      elementToUse = locator.first();
+      boundingBox = await elementToUse.boundingBox();
     }
 
-    if (!clickBoundingBox) {
+    if (!boundingBox) {
       throw new Error(`Element not found or not visible: ${selector}`);
     }
 
-    const x = clickBoundingBox.x + clickBoundingBox.width / 2;
-    const y = clickBoundingBox.y + clickBoundingBox.height / 2;
+    return { element: elementToUse, box: boundingBox };
+  }
 
-    console.log(`Clicking at: (${x}, ${y})`);
+  // Extracts from the main document and every visible iframe; frame boxes are shifted into page coordinates
+  private async extractInteractiveElements(): Promise<UIElement[]> {
+    if (!this.page) throw new Error('Browser not initialized');
 
-    await elementToClick.click();
-    await this.page.waitForTimeout(1000);
+    const elements = await this.page.evaluate(extractElementsScript);
 
-    return { x, y };
+    for (const frame of this.page.frames()) {
+      if (frame === this.page.mainFrame() || frame.isDetached()) continue;
+
+      try {
+        const placement = await this.locateFrame(frame);
+        if (!placement) continue;
+
+        const frameElements = await frame.evaluate(extractElementsScript);
+        for (const element of frameElements) {
+          if (element.boundingBox) {
+            element.boundingBox.x += placement.offset.x;
+            element.boundingBox.y += placement.offset.y;
+          }
+          element.locators = element.locators?.map(locator =>
+            locator.strategy === 'bbox' && element.boundingBox
+              ? { ...locator, value: [element.boundingBox.x, element.boundingBox.y, element.boundingBox.width, element.boundingBox.height].map(n => Math.round(n)).join(',') }
+              : locator
+          );
+          element.framePath = placement.framePath;
+          elements.push(element);
+        }
+      } catch (error) {
+        // Frames can navigate or detach mid-extraction; the rest of the page is still usable
+        console.warn(`Skipping frame ${frame.url()}: ${(error as Error).message}`);
+      }
+    }
+
+    return elements;
   }
 
-  async type(selector: string, text: string): Promise<void> {
-    if (!this.page) throw new Error('Browser not initialized');
+  // Selector path from the top document down to this frame, and where its content starts on the page
+  private async locateFrame(frame: Frame): Promise<{ framePath: string[]; offset: { x: number; y: number } } | null> {
+    const frameElement = await frame.frameElement();
+    const box = await frameElement.boundingBox();
+    if (!box || box.width === 0 || box.height === 0) {
+      await frameElement.dispose();
+      return null;
+    }
+    const [borderLeft, borderTop] = await frameElement.evaluate(el => [(el as Element).clientLeft, (el as Element).clientTop]);
+    await frameElement.dispose();
 
-    const element = await this.page.locator(selector).first();
-    await element.click();
-    await element.fill(text);
-    await this.page.waitForTimeout(500);
+    const framePath: string[] = [];
+    for (let current: Frame | null = frame; current && current.parentFrame(); current = current.parentFrame()) {
+      const handle = await current.frameElement();
+      framePath.unshift(await handle.evaluate(frameSelectorScript));
+      await handle.dispose();
+    }
+
+    return { framePath, offset: { x: box.x + borderLeft, y: box.y + borderTop } };
   }
 
-  async saveScreenshot(path: string): Promise<void> {
+  // Page for top-level elements, or a FrameLocator chain through each iframe on the path
+  private scopeFor(framePath?: string[]): Page | FrameLocator {
     if (!this.page) throw new Error('Browser not initialized');
-    await this.page.screenshot({ path, type: 'png' });
+
+    let scope: Page | FrameLocator = this.page;
+    for (const frameSelector of framePath ?? []) {
+      scope = scope.frameLocator(frameSelector);
+    }
+    return scope;
   }
+}
 
-  async close(): Promise<void> {
-    // Close context if using persistent mode, otherwise close browser
-    if (this.context) {
-      await this.context.close();
-    } else if (this.browser) {
-      await this.browser.close();
+// What the recorder adds to each window: an install guard, and the binding exposed by captureUserEvents
+type RecorderWindow = Window & {
+  __wfcRecorderInstalled?: boolean;
+  __wfcRecordEvent?: (event: Record<string, unknown>) => void;
+};
+
+// Runs inside the page: forwards user interactions to the __wfcRecordEvent binding
+function installRecorderScript(): void {
+  const w = window as RecorderWindow;
+  if (w.__wfcRecorderInstalled) return;
+  w.__wfcRecorderInstalled = true;
+
+  const send = (event: Record<string, unknown>) => {
+    if (typeof w.__wfcRecordEvent === 'function') {
+      w.__wfcRecordEvent(event);
+    }
+  };
+  const center = (el: Element) => {
+    const rect = el.getBoundingClientRect();
+    return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+  };
+
+  // Typing is reported once per field, when the user moves on, rather than per keystroke
+  let pendingInput: HTMLElement | null = null;
+  const flushInput = () => {
+    if (!pendingInput) return;
+    const el = pendingInput;
+    pendingInput = null;
+    const value = el.isContentEditable ? el.textContent || '' : (el as HTMLInputElement).value;
+    send({
+      kind: 'type',
+      ...center(el),
+      value,
+      isPassword: (el as HTMLInputElement).type === 'password',
+    });
+  };
+
+  document.addEventListener('click', (e) => {
+    flushInput();
+    send({ kind: 'click', x: e.clientX, y: e.clientY });
+  }, true);
+
+  document.addEventListener('input', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'SELECT') return;
+    if (pendingInput && pendingInput !== target) flushInput();
+    pendingInput = target;
+  }, true);
+
+  document.addEventListener('change', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'SELECT') {
+      const select = target as HTMLSelectElement;
+      const option = select.options[select.selectedIndex];
+      send({ kind: 'select', ...center(select), value: option ? option.label : select.value });
+    } else {
+      flushInput();
     }
+  }, true);
+
+  document.addEventListener('focusout', () => flushInput(), true);
+
+  document.addEventListener('keydown', (e) => {
+    if (e.key !== 'Enter' && e.key !== 'Escape' && e.key !== 'Tab') return;
+    flushInput();
+    const target = e.target instanceof Element && e.target !== document.body ? center(e.target) : {};
+    send({ kind: 'keypress', key: e.key, ...target });
+  }, true);
+
+  // Scrolls are reported once the user stops, as the distance since the last report
+  const reportedScrollTop = new Map<Element, number>();
+  let scrollTimer: ReturnType<typeof setTimeout> | undefined;
+  document.addEventListener('scroll', (e) => {
+    const target = e.target === document ? document.scrollingElement : e.target as Element;
+    if (!target) return;
+    clearTimeout(scrollTimer);
+    scrollTimer = setTimeout(() => {
+      const deltaY = target.scrollTop - (reportedScrollTop.get(target) ?? 0);
+      if (Math.abs(deltaY) < 50) return;
+      reportedScrollTop.set(target, target.scrollTop);
+      const position = target === document.scrollingElement ? {} : center(target);
+      send({ kind: 'scroll', deltaY, ...position });
+    }, 400);
+  }, true);
+
+  window.addEventListener('beforeunload', flushInput);
+}
+
+
+// Runs inside the page: draws the outline, click marker and numbered callout on a fixed, non-interactive layer
+function drawAnnotationOverlay(annotation: {
+  box?: { x: number; y: number; width: number; height: number };
+  point?: { x: number; y: number };
+  label?: string;
+}): void {
+  document.getElementById('__wfc-annotation')?.remove();
+
+  const overlay = document.createElement('div');
+  overlay.id = '__wfc-annotation';
+  overlay.style.cssText = 'position:fixed;inset:0;pointer-events:none;z-index:2147483647;';
+
+  const place = (el: HTMLElement, css: string) => {
+    el.style.cssText = `position:absolute;box-sizing:border-box;${css}`;
+    overlay.appendChild(el);
+  };
+
+  if (annotation.box) {
+    const { x, y, width, height } = annotation.box;
+    place(
+      document.createElement('div'),
+      `left:${x - 3}px;top:${y - 3}px;width:${width + 6}px;height:${height + 6}px;border:3px solid #e53935;border-radius:4px;box-shadow:0 0 0 2px rgba(255,255,255,0.8);`
+    );
   }
 
-  async keepAlive(seconds: number): Promise<void> {
-    if (!this.page) throw new Error('Browser not initialized');
-    await this.page.waitForTimeout(seconds * 1000);
+  if (annotation.point) {
+    const { x, y } = annotation.point;
+    place(
+      document.createElement('div'),
+      `left:${x - 10}px;top:${y - 10}px;width:20px;height:20px;border:3px solid #e53935;border-radius:50%;background:rgba(229,57,53,0.35);`
+    );
   }
 
-  async saveElementsToJson(elements: UIElement[], path: string): Promise<void> {
-    const jsonData = JSON.stringify(elements, null, 2);
-    await fs.writeFile(path, jsonData, 'utf-8');
+  if (annotation.label) {
+    const anchor = annotation.box ?? (annotation.point ? { ...annotation.point, width: 0, height: 0 } : { x: 12, y: 12, width: 0, height: 0 });
+    const callout = document.createElement('div');
+    callout.textContent = annotation.label;
+    // Sit above-left of the target, but stay inside the viewport
+    const left = Math.max(2, anchor.x - 14);
+    const top = anchor.y - 30 >= 2 ? anchor.y - 30 : anchor.y + anchor.height + 4;
+    place(
+      callout,
+      `left:${left}px;top:${top}px;min-width:26px;height:26px;padding:0 6px;border-radius:13px;background:#e53935;color:#fff;font:bold 14px/26px sans-serif;text-align:center;box-shadow:0 1px 3px rgba(0,0,0,0.4);`
+    );
   }
 
-  private async extractInteractiveElements(): Promise<UIElement[]> {
-    if (!this.page) throw new Error('Browser not initialized');
+  document.documentElement.appendChild(overlay);
+}
 
-    const elements = await this.page.evaluate(() => {
-      const interactiveSelectors = [
-        'button',
-        'a',
-        'input',
-        'textarea',
-        'select',
-        '[role="button"]',
-        '[role="link"]',
-        '[role="textbox"]',
-        '[role="menuitem"]',
-        '[role="tab"]',
-        '[role="option"]',
-        '[role="switch"]',
-        '[role="checkbox"]',
-        '[contenteditable="true"]',
-        '[onclick]',
-        '[data-testid]',
-      ];
-
-      interface ElementData {
-        element: Element;
-        selector: string;
-        text: string;
-        role: string;
-        isVisible: boolean;
-        boundingBox: { x: number; y: number; width: number; height: number };
-        ariaLabel?: string;
-        placeholder?: string;
-        title?: string;
-        name?: string;
-        type?: string;
-        value?: string;
-        region?: string;
-        parentSelector?: string;
-        depth?: number;
-      }
+// Runs inside the page: outlines each element and labels it with its index, cycling colours so neighbours differ
+function drawMarksOverlay(marks: { index: number; box: { x: number; y: number; width: number; height: number } }[]): void {
+  document.getElementById('__wfc-marks')?.remove();
 
-      const elementToDataMap = new Map<Element, ElementData>();
-      const seenElements = new Set<Element>();
-
-      function detectRegion(el: Element): string {
-        let current: Element | null = el;
-        
-        while (current) {
-          const tagName = current.tagName?.toLowerCase();
-          const role = current.getAttribute('role');
-          const id = current.id?.toLowerCase();
-          const className = current.className?.toString().toLowerCase();
-          
-          if (tagName === 'header' || role === 'banner' || id?.includes('header') || className?.includes('header')) {
-            return 'header';
-          }
-          if (tagName === 'nav' || role === 'navigation' || id?.includes('nav') || className?.includes('nav')) {
-            return 'nav';
-          }
-          if (tagName === 'aside' || role === 'complementary' || id?.includes('sidebar') || className?.includes('sidebar')) {
-            return 'sidebar';
-          }
-          if (tagName === 'footer' || role === 'contentinfo' || id?.includes('footer') || className?.includes('footer')) {
-            return 'footer';
-          }
-          if (tagName === 'main' || role === 'main' || id?.includes('main') || className?.includes('main-content')) {
-            return 'main';
-          }
-          
-          current = current.parentElement;
-        }
-        
+  const colors = ['#e53935', '#1e88e5', '#43a047', '#fb8c00', '#8e24aa', '#00897b', '#d81b60', '#3949ab'];
+  const overlay = document.createElement('div');
+  overlay.id = '__wfc-marks';
+  overlay.style.cssText = 'position:fixed;inset:0;pointer-events:none;z-index:2147483647;';
+
+  for (const { index, box } of marks) {
+    const color = colors[index % colors.length];
+
+    const outline = document.createElement('div');
+    outline.style.cssText = `position:absolute;box-sizing:border-box;left:${box.x}px;top:${box.y}px;width:${box.width}px;height:${box.height}px;border:2px solid ${color};`;
+    overlay.appendChild(outline);
+
+    const label = document.createElement('div');
+    label.textContent = String(index);
+    // Inside the top-left corner, so labels of stacked elements don't cover the element above
+    label.style.cssText = `position:absolute;left:${Math.max(0, box.x)}px;top:${Math.max(0, box.y)}px;padding:0 3px;background:${color};color:#fff;font:bold 11px/15px monospace;`;
+    overlay.appendChild(label);
+  }
+
+  document.documentElement.appendChild(overlay);
+}
+
+// Runs inside the page: collects interactive elements with selectors, metadata and fallback locators
+function extractElementsScript(): UIElement[] {
+  const interactiveSelectors = [
+    'button',
+    'a',
+    'input',
+    'textarea',
+    'select',
+    '[role="button"]',
+    '[role="link"]',
+    '[role="textbox"]',
+    '[role="menuitem"]',
+    '[role="tab"]',
+    '[role="option"]',
+    '[role="switch"]',
+    '[role="checkbox"]',
+    '[contenteditable="true"]',
+    '[onclick]',
+    '[data-testid]',
+  ];
+
+  interface ElementData {
+    element: Element;
+    selector: string;
+    text: string;
+    role: string;
+    isVisible: boolean;
+    boundingBox: { x: number; y: number; width: number; height: number };
+    ariaLabel?: string;
+    placeholder?: string;
+    title?: string;
+    name?: string;
+    type?: string;
+    value?: string;
+    region?: string;
+    parentSelector?: string;
+    depth?: number;
+    shadowPath: string[];
+    locators: { strategy: 'role' | 'text' | 'testid' | 'css' | 'xpath' | 'bbox'; value: string }[];
+  }
+
+  interface SearchRoot {
+    root: Document | ShadowRoot;
+    shadowPath: string[]; // Readable selectors of the shadow hosts above this root
+    hostCssPath: string[]; // Exact CSS paths of those hosts, for the chained css locator
+  }
+
+  const elementToDataMap = new Map<Element, ElementData>();
+  const seenElements = new Set<Element>();
+
+  // Steps out of a shadow root to its host, so region, depth and parent lookups see the whole composed tree
+  function composedParent(el: Element): Element | null {
+    if (el.parentElement) return el.parentElement;
+    const root = el.getRootNode();
+    return root instanceof ShadowRoot ? root.host : null;
+  }
+
+  function detectRegion(el: Element): string {
+    let current: Element | null = el;
+    
+    while (current) {
+      const tagName = current.tagName?.toLowerCase();
+      const role = current.getAttribute('role');
+      const id = current.id?.toLowerCase();
+      const className = current.className?.toString().toLowerCase();
+      
+      if (tagName === 'header' || role === 'banner' || id?.includes('header') || className?.includes('header')) {
+        return 'header';
+      }
+      if (tagName === 'nav' || role === 'navigation' || id?.includes('nav') || className?.includes('nav')) {
+        return 'nav';
+      }
+      if (tagName === 'aside' || role === 'complementary' || id?.includes('sidebar') || className?.includes('sidebar')) {
+        return 'sidebar';
+      }
+      if (tagName === 'footer' || role === 'contentinfo' || id?.includes('footer') || className?.includes('footer')) {
+        return 'footer';
+      }
+      if (tagName === 'main' || role === 'main' || id?.includes('main') || className?.includes('main-content')) {
         return 'main';
       }
+      
+      current = composedParent(current);
+    }
+    
+    return 'main';
+  }
 
-      function findInteractiveParent(el: Element, elementToDataMap: Map<Element, ElementData>): string | undefined {
-        let current = el.parentElement;
-        
-        while (current) {
-          if (elementToDataMap.has(current)) {
-            return elementToDataMap.get(current)!.selector;
-          }
-          current = current.parentElement;
-        }
-        
-        return undefined;
+  function findInteractiveParent(el: Element, elementToDataMap: Map<Element, ElementData>): string | undefined {
+    let current = composedParent(el);
+    
+    while (current) {
+      if (elementToDataMap.has(current)) {
+        return elementToDataMap.get(current)!.selector;
       }
+      current = composedParent(current);
+    }
+    
+    return undefined;
+  }
 
-      function calculateDepth(el: Element): number {
-        let depth = 0;
-        let current = el.parentElement;
-        
-        while (current && current !== document.body) {
-          depth++;
-          current = current.parentElement;
-        }
-        
-        return depth;
-      }
+  function calculateDepth(el: Element): number {
+    let depth = 0;
+    let current = composedParent(el);
+    
+    while (current && current !== document.body) {
+      depth++;
+      current = composedParent(current);
+    }
+    
+    return depth;
+  }
 
-      function generateSelector(el: Element): string {
-        const htmlEl = el as HTMLElement;
-        const tagName = el.tagName.toLowerCase();
-        const ariaRole = el.getAttribute('role');
-        const ariaLabel = el.getAttribute('aria-label');
-        const placeholder = (htmlEl as HTMLInputElement).placeholder;
-        const testId = el.getAttribute('data-testid');
-        const contentEditable = htmlEl.contentEditable === 'true';
-        const name = (htmlEl as HTMLInputElement).name;
-        const type = (htmlEl as HTMLInputElement).type;
-        const text = (el.textContent || '').trim().slice(0, 100);
-
-        if (testId) {
-          return `[data-testid="${testId}"]`;
-        } else if (ariaLabel) {
-          if (ariaRole) {
-            return `${tagName}[aria-label="${ariaLabel}"]`;
-          } else {
-            return `[aria-label="${ariaLabel}"]`;
-          }
-        } else if (placeholder && (tagName === 'input' || tagName === 'textarea')) {
-          return `${tagName}[placeholder="${placeholder}"]`;
-        } else if (text && text.length > 0 && text.length <= 50 && (tagName === 'button' || tagName === 'a' || tagName === 'div' || tagName === 'span' || ariaRole === 'button' || ariaRole === 'link')) {
-          const escapedText = text.replace(/"/g, '\\"');
-          return `${tagName}:has-text("${escapedText}")`;
-        } else if (contentEditable) {
-          return `${tagName}[contenteditable="true"]`;
-        } else if (ariaRole && (ariaRole === 'button' || ariaRole === 'link' || ariaRole === 'textbox' || ariaRole === 'checkbox' || ariaRole === 'radio')) {
-          return `${tagName}[role="${ariaRole}"]`;
-        } else if (name) {
-          return `${tagName}[name="${name}"]`;
+  function generateSelector(el: Element): string {
+    const htmlEl = el as HTMLElement;
+    const tagName = el.tagName.toLowerCase();
+    const ariaRole = el.getAttribute('role');
+    const ariaLabel = el.getAttribute('aria-label');
+    const placeholder = (htmlEl as HTMLInputElement).placeholder;
+    const testId = el.getAttribute('data-testid');
+    const contentEditable = htmlEl.contentEditable === 'true';
+    const name = (htmlEl as HTMLInputElement).name;
+    const type = (htmlEl as HTMLInputElement).type;
+    const text = (el.textContent || '').trim().slice(0, 100);
+
+    if (testId) {
+      return `[data-testid="${testId}"]`;
+    } else if (ariaLabel) {
+      if (ariaRole) {
+        return `${tagName}[aria-label="${ariaLabel}"]`;
+      } else {
+        return `[aria-label="${ariaLabel}"]`;
+      }
+    } else if (placeholder && (tagName === 'input' || tagName === 'textarea')) {
+      return `${tagName}[placeholder="${placeholder}"]`;
+    } else if (text && text.length > 0 && text.length <= 50 && (tagName === 'button' || tagName === 'a' || tagName === 'div' || tagName === 'span' || ariaRole === 'button' || ariaRole === 'link')) {
+      const escapedText = text.replace(/"/g, '\\"');
+      return `${tagName}:has-text("${escapedText}")`;
+    } else if (contentEditable) {
+      return `${tagName}[contenteditable="true"]`;
+    } else if (ariaRole && (ariaRole === 'button' || ariaRole === 'link' || ariaRole === 'textbox' || ariaRole === 'checkbox' || ariaRole === 'radio')) {
+      return `${tagName}[role="${ariaRole}"]`;
+    } else if (name) {
+      return `${tagName}[name="${name}"]`;
+    } else {
+      if (el.id) {
+        return `${tagName}[id="${el.id}"]`;
+      } else if (el.className && typeof el.className === 'string') {
+        const classes = el.className.split(' ').filter((c: string) => c && !/^[0-9]/.test(c)).slice(0, 2).join('.');
+        if (classes) {
+          return `${tagName}.${classes}`;
         } else {
-          if (el.id) {
-            return `${tagName}[id="${el.id}"]`;
-          } else if (el.className && typeof el.className === 'string') {
-            const classes = el.className.split(' ').filter((c: string) => c && !/^[0-9]/.test(c)).slice(0, 2).join('.');
-            if (classes) {
-              return `${tagName}.${classes}`;
-            } else {
-              return tagName;
-            }
-          } else {
-            return tagName;
-          }
+          return tagName;
         }
+      } else {
+        return tagName;
       }
+    }
+  }
 
-      function processElement(el: Element): void {
-        if (seenElements.has(el)) return;
-        seenElements.add(el);
-
-        const rect = el.getBoundingClientRect();
-        const isVisible =
-        rect.width > 0 &&
-        rect.height > 0 &&
-        window.getComputedStyle(el).visibility !== 'hidden' &&
-        window.getComputedStyle(el).display !== 'none' &&
-        window.getComputedStyle(el).opacity !== '0' &&
-        window.getComputedStyle(el).pointerEvents !== 'none';
-
-        if (!isVisible) return;
-
-        const htmlEl = el as HTMLElement;
-        const text = (el.textContent || '').trim().slice(0, 100);
-        
-        const ariaRole = el.getAttribute('role');
-        const tagName = el.tagName.toLowerCase();
-        const ariaLabel = el.getAttribute('aria-label');
-        const placeholder = (htmlEl as HTMLInputElement).placeholder;
-        const title = htmlEl.title;
-        const name = (htmlEl as HTMLInputElement).name;
-        const type = (htmlEl as HTMLInputElement).type;
-        const value = (htmlEl as HTMLInputElement).value;
-        const contentEditable = htmlEl.contentEditable === 'true';
-        
-        let role = ariaRole || tagName;
-        if (tagName === 'input' && type) {
-          role = type === 'text' || type === 'email' || type === 'password' || type === 'search' || type === 'tel' || type === 'url' ? 'textbox' : type;
-        } else if (tagName === 'textarea') {
-          role = 'textbox';
-        } else if (contentEditable) {
-          role = 'textbox';
-        } else if ((tagName === 'div' || tagName === 'span') && window.getComputedStyle(el).cursor === 'pointer') {
-          role = 'button';
-        }
+  function implicitRole(el: Element): string | null {
+    const explicitRole = el.getAttribute('role');
+    if (explicitRole) return explicitRole;
+
+    const tagName = el.tagName.toLowerCase();
+    const type = ((el as HTMLInputElement).type || '').toLowerCase();
+    if (tagName === 'button') return 'button';
+    if (tagName === 'a' && el.hasAttribute('href')) return 'link';
+    if (tagName === 'textarea') return 'textbox';
+    if (tagName === 'select') return (el as HTMLSelectElement).multiple ? 'listbox' : 'combobox';
+    if (tagName === 'input') {
+      if (type === 'checkbox' || type === 'radio') return type;
+      if (type === 'button' || type === 'submit' || type === 'reset') return 'button';
+      if (type === 'search') return 'searchbox';
+      if (type === 'range') return 'slider';
+      if (['', 'text', 'email', 'tel', 'url'].includes(type)) return 'textbox';
+    }
+    return null;
+  }
+
+  function cssPath(el: Element): string {
+    const parts: string[] = [];
+    let current: Element | null = el;
 
-        const selector = generateSelector(el);
-        const region = detectRegion(el);
-        const depth = calculateDepth(el);
-
-        const elementData: ElementData = {
-          element: el,
-          selector,
-          text,
-          role,
-          isVisible,
-          boundingBox: {
-            x: rect.x,
-            y: rect.y,
-            width: rect.width,
-            height: rect.height,
-          },
-          ariaLabel: ariaLabel || undefined,
-          placeholder: placeholder || undefined,
-          title: title || undefined,
-          name: name || undefined,
-          type: type || undefined,
-          value: value || undefined,
-          region,
-          depth,
-        };
-
-        elementToDataMap.set(el, elementData);
+    while (current && current !== document.documentElement) {
+      const tagName = current.tagName.toLowerCase();
+      if (current.id && /^[A-Za-z][\w-]*$/.test(current.id)) {
+        parts.unshift(`${tagName}#${current.id}`);
+        break;
       }
 
-      interactiveSelectors.forEach((selectorType) => {
-        const elements = document.querySelectorAll(selectorType);
-        elements.forEach((el) => {
-          processElement(el);
-        });
-      });
+      const parent: Element | null = current.parentElement;
+      const sameTagSiblings = parent
+        ? Array.from(parent.children).filter(child => child.tagName === current!.tagName)
+        : [];
+      parts.unshift(
+        sameTagSiblings.length > 1
+          ? `${tagName}:nth-of-type(${sameTagSiblings.indexOf(current) + 1})`
+          : tagName
+      );
+      current = parent;
+    }
 
-      const allElements = document.querySelectorAll('div, span');
-      allElements.forEach((el) => {
-        if (seenElements.has(el)) return;
-        
-        const computedStyle = window.getComputedStyle(el);
-        const rect = el.getBoundingClientRect();
-        
-        const isClickable = computedStyle.cursor === 'pointer';
-        const isReasonableSize = rect.width > 20 && rect.width < 500 && 
-                                 rect.height > 20 && rect.height < 200;
-        const text = (el.textContent || '').trim();
-        const hasText = text.length > 0 && text.length < 100;
-        
-        if (isClickable && isReasonableSize && hasText) {
-          processElement(el);
-        }
-      });
+    return parts.join(' > ');
+  }
 
-      elementToDataMap.forEach((data) => {
-        data.parentSelector = findInteractiveParent(data.element, elementToDataMap);
-      });
+  function xPath(el: Element): string {
+    const parts: string[] = [];
+    let current: Element | null = el;
 
-      const selectorToElement = new Map<string, ElementData>();
-      elementToDataMap.forEach((data) => {
-        if (!selectorToElement.has(data.selector)) {
-          selectorToElement.set(data.selector, data);
-        }
-      });
+    while (current) {
+      let index = 1;
+      let sibling = current.previousElementSibling;
+      while (sibling) {
+        if (sibling.tagName === current.tagName) index++;
+        sibling = sibling.previousElementSibling;
+      }
+      parts.unshift(`${current.tagName.toLowerCase()}[${index}]`);
+      current = current.parentElement;
+    }
+
+    return '/' + parts.join('/');
+  }
+
+  // Alternatives tried in order when the primary selector no longer resolves
+  function generateLocators(el: Element, selector: string, text: string, rect: DOMRect, hostCssPath: string[]): ElementData['locators'] {
+    const locators: ElementData['locators'] = [];
+    const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+    const testId = el.getAttribute('data-testid');
+    if (testId) {
+      locators.push({ strategy: 'testid', value: `[data-testid="${escape(testId)}"]` });
+    }
 
-      const results = Array.from(selectorToElement.values()).map(data => ({
-        selector: data.selector,
-        text: data.text,
-        role: data.role,
-        isVisible: data.isVisible,
-        boundingBox: data.boundingBox,
-        ariaLabel: data.ariaLabel,
-        placeholder: data.placeholder,
-        title: data.title,
-        name: data.name,
-        type: data.type,
-        value: data.value,
-        region: data.region,
-        parentSelector: data.parentSelector,
-        depth: data.depth,
-      }));
-
-      return results;
+    const role = implicitRole(el);
+    const accessibleName = el.getAttribute('aria-label') || (text.length <= 80 ? text : '');
+    if (role && accessibleName) {
+      locators.push({ strategy: 'role', value: `role=${role}[name="${escape(accessibleName)}"]` });
+    }
+
+    if (text && text.length <= 80) {
+      locators.push({ strategy: 'text', value: `text="${escape(text)}"` });
+    }
+
+    // CSS paths stop at each shadow root, so chain them through the hosts; XPath cannot cross into shadow DOM at all
+    locators.push({ strategy: 'css', value: [...hostCssPath, cssPath(el)].join(' >> ') });
+    if (hostCssPath.length === 0) {
+      locators.push({ strategy: 'xpath', value: `xpath=${xPath(el)}` });
+    }
+    locators.push({
+      strategy: 'bbox',
+      value: [rect.x, rect.y, rect.width, rect.height].map(n => Math.round(n)).join(','),
     });
 
-    return elements;
+    return locators.filter(locator => locator.value !== selector);
+  }
+
+  function processElement(el: Element, searchRoot: SearchRoot): void {
+    if (seenElements.has(el)) return;
+    seenElements.add(el);
+
+    const rect = el.getBoundingClientRect();
+    const isVisible =
+    rect.width > 0 &&
+    rect.height > 0 &&
+    window.getComputedStyle(el).visibility !== 'hidden' &&
+    window.getComputedStyle(el).display !== 'none' &&
+    window.getComputedStyle(el).opacity !== '0' &&
+    window.getComputedStyle(el).pointerEvents !== 'none';
+
+    if (!isVisible) return;
+
+    const htmlEl = el as HTMLElement;
+    const text = (el.textContent || '').trim().slice(0, 100);
+    
+    const ariaRole = el.getAttribute('role');
+    const tagName = el.tagName.toLowerCase();
+    const ariaLabel = el.getAttribute('aria-label');
+    const placeholder = (htmlEl as HTMLInputElement).placeholder;
+    const title = htmlEl.title;
+    const name = (htmlEl as HTMLInputElement).name;
+    const type = (htmlEl as HTMLInputElement).type;
+    // A password field's value is never read, so it can't reach elements-N.json or the prompt
+    const value = type === 'password' ? '' : (htmlEl as HTMLInputElement).value;
+    const contentEditable = htmlEl.contentEditable === 'true';
+    
+    let role = ariaRole || tagName;
+    if (tagName === 'input' && type) {
+      role = type === 'text' || type === 'email' || type === 'password' || type === 'search' || type === 'tel' || type === 'url' ? 'textbox' : type;
+    } else if (tagName === 'textarea') {
+      role = 'textbox';
+    } else if (contentEditable) {
+      role = 'textbox';
+    } else if ((tagName === 'div' || tagName === 'span') && window.getComputedStyle(el).cursor === 'pointer') {
+      role = 'button';
+    }
+
+    const selector = generateSelector(el);
+    const region = detectRegion(el);
+    const depth = calculateDepth(el);
+
+    const elementData: ElementData = {
+      element: el,
+      selector,
+      text,
+      role,
+      isVisible,
+      boundingBox: {
+        x: rect.x,
+        y: rect.y,
+        width: rect.width,
+        height: rect.height,
+      },
+      ariaLabel: ariaLabel || undefined,
+      placeholder: placeholder || undefined,
+      title: title || undefined,
+      name: name || undefined,
+      type: type || undefined,
+      value: value || undefined,
+      region,
+      depth,
+      shadowPath: searchRoot.shadowPath,
+      locators: generateLocators(el, selector, text, rect, searchRoot.hostCssPath),
+    };
+
+    elementToDataMap.set(el, elementData);
+  }
+
+  // Open shadow roots are searched like the document itself; closed ones are out of reach
+  const searchRoots: SearchRoot[] = [];
+  function collectRoots(root: Document | ShadowRoot, shadowPath: string[], hostCssPath: string[]): void {
+    searchRoots.push({ root, shadowPath, hostCssPath });
+    root.querySelectorAll('*').forEach((el) => {
+      if (el.shadowRoot) {
+        collectRoots(el.shadowRoot, [...shadowPath, generateSelector(el)], [...hostCssPath, cssPath(el)]);
+      }
+    });
   }
+  collectRoots(document, [], []);
+
+  for (const searchRoot of searchRoots) {
+    interactiveSelectors.forEach((selectorType) => {
+      const elements = searchRoot.root.querySelectorAll(selectorType);
+      elements.forEach((el) => {
+        processElement(el, searchRoot);
+      });
+    });
+
+    const allElements = searchRoot.root.querySelectorAll('div, span');
+    allElements.forEach((el) => {
+      if (seenElements.has(el)) return;
+      
+      const computedStyle = window.getComputedStyle(el);
+      const rect = el.getBoundingClientRect();
+      
+      const isClickable = computedStyle.cursor === 'pointer';
+      const isReasonableSize = rect.width > 20 && rect.width < 500 && 
+                               rect.height > 20 && rect.height < 200;
+      const text = (el.textContent || '').trim();
+      const hasText = text.length > 0 && text.length < 100;
+      
+      if (isClickable && isReasonableSize && hasText) {
+        processElement(el, searchRoot);
+      }
+    });
+  }
+
+  elementToDataMap.forEach((data) => {
+    data.parentSelector = findInteractiveParent(data.element, elementToDataMap);
+  });
+
+  const selectorToElement = new Map<string, ElementData>();
+  elementToDataMap.forEach((data) => {
+    if (!selectorToElement.has(data.selector)) {
+      selectorToElement.set(data.selector, data);
+    }
+  });
+
+  const results = Array.from(selectorToElement.values()).map(data => ({
+    selector: data.selector,
+    text: data.text,
+    role: data.role,
+    isVisible: data.isVisible,
+    boundingBox: data.boundingBox,
+    ariaLabel: data.ariaLabel,
+    placeholder: data.placeholder,
+    title: data.title,
+    name: data.name,
+    type: data.type,
+    value: data.value,
+    region: data.region,
+    parentSelector: data.parentSelector,
+    depth: data.depth,
+    shadowPath: data.shadowPath.length > 0 ? data.shadowPath : undefined,
+    locators: data.locators,
+  }));
+
+  return results;
 }
 
+// Runs inside the parent document: a selector that picks out this iframe element among its siblings
+function frameSelectorScript(el: Element): string {
+  const tagName = el.tagName.toLowerCase();
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  const root = el.getRootNode() as Document | ShadowRoot;
+
+  for (const attribute of ['id', 'name', 'title', 'src']) {
+    const value = el.getAttribute(attribute);
+    if (value && root.querySelectorAll(`${tagName}[${attribute}="${escape(value)}"]`).length === 1) {
+      return `${tagName}[${attribute}="${escape(value)}"]`;
+    }
+  }
+
+  const index = Array.from(root.querySelectorAll(tagName)).indexOf(el);
+  return `${tagName} >> nth=${index}`;
+}
@@ -0,0 +1,552 @@
+import { parseArgs } from 'util';
+import { promises as fs } from 'fs';
+import path from 'path';
+import * as readline from 'readline/promises';
+import { Writable } from 'stream';
+import { Agent } from './agent';
+import { WorkflowReplayer } from './workflow-replayer';
+import { WorkflowRecorder } from './workflow-recorder';
+import { TaskDataset } from './task-dataset';
+import { TutorialExporter, TutorialFormat } from './tutorial-exporter';
+import { BatchRunner } from './batch-runner';
+import { createLLMProvider } from './llm-provider';
+import { DEFAULT_REDACTION_CONFIG, TaskRedactor, findTaskFolders } from './dataset-redactor';
+import { DatasetValidator } from './dataset-validator';
+import { isValidSecretName, readSecretsFile, requirePassphrase, writeSecretsFile } from './secret-vault';
+import { LLMProviderConfig, RedactionDetector, WorkflowConfig } from './types';
+
+const USAGE = `Usage: ui-workflow-capture <command> [options]
+
+Commands:
+  capture <task>             Run the agent on a natural language task (default command)
+  record <task>              Record a workflow you perform by hand (requires --start-url)
+  replay <task-folder|file>  Re-execute a captured workflow without the LLM
+  batch <manifest>           Capture every task in a JSONL or YAML manifest
+  inspect <task-folder>      Print the steps of a captured workflow
+  export <task-folder>       Bundle a captured workflow into JSON, or a Markdown/HTML tutorial
+  secrets <list|set|remove> [name]  Manage the encrypted secrets file (needs SECRETS_PASSPHRASE)
+  redact <dataset-dir|task-folder>  Scrub PII from captured artifacts in place and write redaction reports
+  validate <dataset-dir|task-folder>  Check captured tasks for missing files, gaps and unfinished runs
+
+Workflow options:
+  --config <path>            JSON config file (flags override its values)
+  --max-steps <n>            Maximum number of steps before stopping (default 20)
+  --screenshot-dir <dir>     Directory for workflow artifacts (default dataset)
+  --slow-mo <ms>             Slow down Playwright operations (default 500)
+  --viewport-width <px>      Browser viewport width (default 1280)
+  --viewport-height <px>     Browser viewport height (default 720)
+  --user-data-dir <dir>      Persistent browser profile directory (default user-data-dir)
+  --storage-state <path>     Start a fresh context from saved cookies/localStorage instead of --user-data-dir
+  --headless                 Run the browser without a visible window
+  --keep-alive <s>           Seconds to keep the browser open after a capture (default 60)
+  --start-url <url>          Skip URL detection and start from this URL (required by record)
+  --resume                   Continue an interrupted capture from its last recorded step (capture and batch)
+  --interactive              Approve, edit or override each step from the terminal
+  --loop-threshold <n>       Repeated no-op actions before recovering with Escape/back (default 3)
+  --element-budget <tokens>  Approximate tokens for the element list in each prompt (default 4000)
+  --set-of-marks             Number elements on the screenshot and let the model answer with a number
+  --observation <mode>       dom | accessibility | both: what the prompt describes the page with (default dom)
+  --no-annotate              Skip the annotated pre-action screenshot for each step
+  --annotation-crop <px>     Crop annotated screenshots to the target plus this padding
+  --dialog-policy <policy>   accept | dismiss for alert/confirm/prompt dialogs (default accept)
+  --fixtures-dir <dir>       Files the upload action may use (default fixtures)
+  --secrets-file <path>      Encrypted secrets for {{secret:name}} placeholders (secrets command default secrets.enc)
+  --trace                    Save a Playwright trace with DOM snapshots (trace.zip in the task folder)
+  --har                      Save network traffic as network.har in the task folder
+  --video                    Save a screen recording of each tab under video/ in the task folder
+  --redact                   Scrub PII from each step's artifacts as they are written
+
+Redaction options (capture with --redact, batch with --redact, and redact):
+  --redact-detectors <list>  Comma-separated detectors: email, phone, token (default all three)
+  --redact-fields <list>     Comma-separated input types whose value is always removed (default password)
+  --blur-radius <px>         Screenshot blur radius (default 10)
+  Custom regexes ("patterns") can only be set in the "redaction" block of --config
+
+LLM options:
+  --provider <name>          openai | openai-compatible | scripted (default openai)
+  --model <name>             Model name (default gpt-4o-mini)
+  --base-url <url>           Base URL for an OpenAI-compatible endpoint
+  --script <path>            Decision fixture for the scripted provider
+  --max-corrections <n>      Re-prompts allowed for an invalid decision (default 2)
+
+Batch options:
+  --concurrency <n>          Number of tasks to run in parallel browser contexts (default 1)
+  --report <path>            Run report path (default <screenshot-dir>/batch-report.json)
+  --force                    Re-run tasks that already have a completed workflow-summary.json
+
+Export options:
+  --format <name>            json | markdown | html (default json)
+  --rewrite                  Have the LLM rewrite tutorial steps into natural instructions
+  --out <path>               Output file (default <task-folder>/workflow-export.json, tutorial.md or tutorial.html)
+
+Validate options:
+  --elements-dir <dir>       Where the elements/<task> folders are (default elements)
+  --quarantine <dir>         Move tasks with errors to <dir>/dataset and <dir>/elements
+  --report <path>            Report path (default <dataset-dir>/validation-report.json)
+
+  -h, --help                 Show this help
+`;
+
+const REDACTION_DETECTORS = DEFAULT_REDACTION_CONFIG.detectors;
+
+const COMMANDS = ['capture', 'record', 'replay', 'batch', 'inspect', 'export', 'secrets', 'redact', 'validate'] as const;
+type Command = typeof COMMANDS[number];
+
+interface CliConfigFile extends Partial<WorkflowConfig> {
+  llm?: Partial<LLMProviderConfig>;
+}
+
+interface CliOptions {
+  command: Command;
+  positionals: string[];
+  config: Partial<WorkflowConfig>;
+  llm: LLMProviderConfig;
+  startUrl?: string;
+  resume?: boolean;
+  concurrency?: number;
+  report?: string;
+  force?: boolean;
+  out?: string;
+  format?: string;
+  rewrite?: boolean;
+  elementsDir?: string;
+  quarantine?: string;
+}
+
+export async function runCli(argv: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'config': { type: 'string' },
+      'max-steps': { type: 'string' },
+      'screenshot-dir': { type: 'string' },
+      'slow-mo': { type: 'string' },
+      'viewport-width': { type: 'string' },
+      'viewport-height': { type: 'string' },
+      'user-data-dir': { type: 'string' },
+      'storage-state': { type: 'string' },
+      'headless': { type: 'boolean' },
+      'keep-alive': { type: 'string' },
+      'start-url': { type: 'string' },
+      'resume': { type: 'boolean' },
+      'loop-threshold': { type: 'string' },
+      'interactive': { type: 'boolean' },
+      'no-annotate': { type: 'boolean' },
+      'set-of-marks': { type: 'boolean' },
+      'observation': { type: 'string' },
+      'element-budget': { type: 'string' },
+      'annotation-crop': { type: 'string' },
+      'dialog-policy': { type: 'string' },
+      'fixtures-dir': { type: 'string' },
+      'secrets-file': { type: 'string' },
+      'redact': { type: 'boolean' },
+      'redact-detectors': { type: 'string' },
+      'redact-fields': { type: 'string' },
+      'blur-radius': { type: 'string' },
+      'trace': { type: 'boolean' },
+      'har': { type: 'boolean' },
+      'video': { type: 'boolean' },
+      'provider': { type: 'string' },
+      'model': { type: 'string' },
+      'base-url': { type: 'string' },
+      'script': { type: 'string' },
+      'max-corrections': { type: 'string' },
+      'concurrency': { type: 'string' },
+      'report': { type: 'string' },
+      'force': { type: 'boolean' },
+      'out': { type: 'string' },
+      'format': { type: 'string' },
+      'rewrite': { type: 'boolean' },
+      'elements-dir': { type: 'string' },
+      'quarantine': { type: 'string' },
+      'help': { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const options = await resolveOptions(values, positionals);
+
+  switch (options.command) {
+    case 'capture':
+      return runCapture(options);
+    case 'record':
+      return runRecord(options);
+    case 'replay':
+      return runReplay(options);
+    case 'batch':
+      return runBatch(options);
+    case 'inspect':
+      return runInspect(options);
+    case 'export':
+      return runExport(options);
+    case 'secrets':
+      return runSecrets(options);
+    case 'redact':
+      return runRedact(options);
+    case 'validate':
+      return runValidate(options);
+  }
+}
+
+async function resolveOptions(
+  values: Record<string, string | boolean | undefined>,
+  positionals: string[]
+): Promise<CliOptions> {
+  // Anything that is not a known command is treated as a capture task, so `npm run dev "How do I ..."` still works
+  let command: Command = 'capture';
+  let rest = positionals;
+  if (positionals.length > 0 && (COMMANDS as readonly string[]).includes(positionals[0])) {
+    command = positionals[0] as Command;
+    rest = positionals.slice(1);
+  }
+
+  const fileConfig: CliConfigFile = values['config']
+    ? JSON.parse(await fs.readFile(values['config'] as string, 'utf-8'))
+    : {};
+  const { llm: fileLlm = {}, ...fileWorkflow } = fileConfig;
+
+  const config: Partial<WorkflowConfig> = { ...fileWorkflow };
+  const maxSteps = parseNumber(values, 'max-steps');
+  const slowMo = parseNumber(values, 'slow-mo');
+  const viewportWidth = parseNumber(values, 'viewport-width');
+  const viewportHeight = parseNumber(values, 'viewport-height');
+  const keepAliveSeconds = parseNumber(values, 'keep-alive');
+  const loopThreshold = parseNumber(values, 'loop-threshold');
+  const annotationCropPadding = parseNumber(values, 'annotation-crop');
+  const elementTokenBudget = parseNumber(values, 'element-budget');
+
+  if (maxSteps !== undefined) config.maxSteps = maxSteps;
+  if (slowMo !== undefined) config.slowMo = slowMo;
+  if (viewportWidth !== undefined) config.viewportWidth = viewportWidth;
+  if (viewportHeight !== undefined) config.viewportHeight = viewportHeight;
+  if (keepAliveSeconds !== undefined) config.keepAliveSeconds = keepAliveSeconds;
+  if (loopThreshold !== undefined) config.loopThreshold = loopThreshold;
+  if (annotationCropPadding !== undefined) config.annotationCropPadding = annotationCropPadding;
+  if (elementTokenBudget !== undefined) config.elementTokenBudget = elementTokenBudget;
+  if (values['screenshot-dir']) config.screenshotDir = values['screenshot-dir'] as string;
+  if (values['user-data-dir']) config.userDataDir = values['user-data-dir'] as string;
+  if (values['storage-state']) config.storageStatePath = values['storage-state'] as string;
+  if (values['headless']) config.headless = true;
+  if (values['interactive']) config.interactive = true;
+  if (values['no-annotate']) config.annotateScreenshots = false;
+  if (values['set-of-marks']) config.setOfMarks = true;
+  if (values['fixtures-dir']) config.fixturesDir = values['fixtures-dir'] as string;
+  if (values['secrets-file']) config.secretsFile = values['secrets-file'] as string;
+  if (values['redact'] || command === 'redact') config.redaction = config.redaction ?? {};
+  // Without --redact or a "redaction" block these only matter to the redact command, so they don't turn redaction on
+  if (config.redaction) {
+    const detectors = parseList(values, 'redact-detectors');
+    const fieldTypes = parseList(values, 'redact-fields');
+    const blurRadius = parseNumber(values, 'blur-radius');
+    const unknown = detectors?.filter(name => !(REDACTION_DETECTORS as string[]).includes(name)) ?? [];
+    if (unknown.length > 0) {
+      throw new Error(`--redact-detectors expects ${REDACTION_DETECTORS.join(', ')}, got "${unknown.join(', ')}"`);
+    }
+    config.redaction = { ...config.redaction };
+    if (detectors) config.redaction.detectors = detectors as RedactionDetector[];
+    if (fieldTypes) config.redaction.fieldTypes = fieldTypes;
+    if (blurRadius !== undefined) config.redaction.blurRadius = blurRadius;
+  }
+  if (values['trace']) config.trace = true;
+  if (values['har']) config.har = true;
+  if (values['video']) config.video = true;
+  if (values['dialog-policy']) {
+    const policy = values['dialog-policy'] as string;
+    if (policy !== 'accept' && policy !== 'dismiss') {
+      throw new Error(`--dialog-policy expects accept or dismiss, got "${policy}"`);
+    }
+    config.dialogPolicy = policy;
+  }
+  if (values['observation']) {
+    const mode = values['observation'] as string;
+    if (mode !== 'dom' && mode !== 'accessibility' && mode !== 'both') {
+      throw new Error(`--observation expects dom, accessibility or both, got "${mode}"`);
+    }
+    config.observationMode = mode;
+  }
+  if (config.setOfMarks && config.observationMode === 'accessibility') {
+    throw new Error('--set-of-marks numbers the DOM element list; use --observation dom or both with it');
+  }
+
+  const llm: LLMProviderConfig = {
+    provider: ((values['provider'] as string) || fileLlm.provider || process.env.LLM_PROVIDER || 'openai') as LLMProviderConfig['provider'],
+    apiKey: fileLlm.apiKey || process.env.OPENAI_API_KEY,
+    baseUrl: (values['base-url'] as string) || fileLlm.baseUrl || process.env.LLM_BASE_URL,
+    model: (values['model'] as string) || fileLlm.model || process.env.LLM_MODEL,
+    scriptPath: (values['script'] as string) || fileLlm.scriptPath || process.env.LLM_SCRIPT,
+    maxCorrections: parseNumber(values, 'max-corrections') ?? fileLlm.maxCorrections,
+  };
+
+  return {
+    command,
+    positionals: rest,
+    config,
+    llm,
+    startUrl: values['start-url'] as string | undefined,
+    resume: values['resume'] as boolean | undefined,
+    concurrency: parseNumber(values, 'concurrency'),
+    report: values['report'] as string | undefined,
+    force: values['force'] as boolean | undefined,
+    out: values['out'] as string | undefined,
+    format: values['format'] as string | undefined,
+    rewrite: values['rewrite'] as boolean | undefined,
+    elementsDir: values['elements-dir'] as string | undefined,
+    quarantine: values['quarantine'] as string | undefined,
+  };
+}
+
+function parseNumber(values: Record<string, string | boolean | undefined>, flag: string): number | undefined {
+  const raw = values[flag];
+  if (raw === undefined) return undefined;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`--${flag} expects a non-negative number, got "${raw}"`);
+  }
+  return value;
+}
+
+function parseList(values: Record<string, string | boolean | undefined>, flag: string): string[] | undefined {
+  const raw = values[flag];
+  if (raw === undefined) return undefined;
+  return String(raw).split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function requirePositional(options: CliOptions, name: string): string {
+  const value = options.positionals[0];
+  if (!value) {
+    throw new Error(`${options.command} requires <${name}>\n\n${USAGE}`);
+  }
+  return value;
+}
+
+async function runCapture(options: CliOptions): Promise<void> {
+  const userTask = options.positionals.join(' ') || "How do I create a new page in Notion?";
+
+  const llm = await createLLMProvider(options.llm);
+  const agent = new Agent(llm, options.config);
+
+  await agent.execute(userTask, { startUrl: options.startUrl, resume: options.resume });
+}
+
+async function runRecord(options: CliOptions): Promise<void> {
+  requirePositional(options, 'task');
+  const userTask = options.positionals.join(' ');
+  if (!options.startUrl) {
+    throw new Error(`record requires --start-url\n\n${USAGE}`);
+  }
+
+  const recorder = new WorkflowRecorder(options.config);
+  await recorder.record(userTask, options.startUrl);
+}
+
+async function runReplay(options: CliOptions): Promise<void> {
+  const source = requirePositional(options, 'task-folder|workflow-summary.json');
+
+  const replayer = new WorkflowReplayer(options.config);
+  const report = await replayer.replay(source);
+  if (report.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+async function runBatch(options: CliOptions): Promise<void> {
+  const manifest = requirePositional(options, 'manifest');
+
+  const runner = new BatchRunner(options.config, options.llm, {
+    concurrency: options.concurrency,
+    force: options.force,
+    resume: options.resume,
+  });
+  const report = await runner.run(manifest, options.report);
+  if (report.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+async function runInspect(options: CliOptions): Promise<void> {
+  const dataset = await TaskDataset.open(requirePositional(options, 'task-folder'));
+  const summary = await dataset.loadSummary();
+  const uiStates = await dataset.loadUiStates();
+
+  console.log(`\nTask: ${summary?.task ?? '(no workflow-summary.json)'}`);
+  console.log(`Folder: ${dataset.getTaskPath()}`);
+  console.log(`Steps: ${uiStates.length}`);
+  if (summary?.status) {
+    console.log(`Status: ${summary.status}`);
+  }
+  if (summary?.error) {
+    console.log(`Error at step ${summary.error.stepNumber}: ${summary.error.message}`);
+  }
+
+  for (const state of uiStates) {
+    const { action } = state;
+    const target = action.selector || action.url || '';
+    const text = action.text ? ` "${action.text}"` : '';
+    const screenshot = await fileExists(state.screenshotPath) ? '' : ' [missing screenshot]';
+    console.log(`  [${state.stepNumber}] ${action.type} ${target}${text}${screenshot}`);
+    for (const dialog of state.dialogs ?? []) {
+      console.log(`      ${dialog.type} dialog ${dialog.response}: ${dialog.message}`);
+    }
+    for (const download of state.downloads ?? []) {
+      console.log(`      download ${download.suggestedFilename}: ${download.failure ?? download.path ?? 'not saved'}`);
+    }
+  }
+}
+
+async function runExport(options: CliOptions): Promise<void> {
+  const dataset = await TaskDataset.open(requirePositional(options, 'task-folder'));
+  const format = options.format ?? 'json';
+
+  if (format === 'markdown' || format === 'html') {
+    const llm = options.rewrite ? await createLLMProvider(options.llm) : undefined;
+    const exporter = new TutorialExporter(dataset, { llm });
+    await exporter.export(format as TutorialFormat, options.out);
+    return;
+  }
+  if (format !== 'json') {
+    throw new Error(`--format expects json, markdown or html, got "${format}"`);
+  }
+
+  const summary = await dataset.loadSummary();
+  const uiStates = await dataset.loadUiStates();
+
+  const steps = await Promise.all(
+    uiStates.map(async (state) => ({
+      ...state,
+      elements: await dataset.loadElements(state.stepNumber),
+      accessibilityTree: await dataset.loadAccessibilityTree(state.stepNumber) ?? undefined,
+    }))
+  );
+
+  const bundle = {
+    task: summary?.task,
+    summary,
+    steps,
+  };
+
+  const outPath = options.out ?? `${dataset.getTaskPath()}/workflow-export.json`;
+  await fs.writeFile(outPath, JSON.stringify(bundle, null, 2), 'utf-8');
+  console.log(`Exported ${steps.length} steps to ${outPath}`);
+}
+
+async function runRedact(options: CliOptions): Promise<void> {
+  const root = requirePositional(options, 'dataset-dir|task-folder');
+
+  for (const taskPath of await findTaskFolders(root)) {
+    const dataset = await TaskDataset.open(taskPath);
+    const report = await new TaskRedactor(dataset, options.config.redaction).run();
+    const totals = Object.entries(report.totals).map(([name, count]) => `${name}=${count}`).join(' ') || 'nothing found';
+    console.log(`${taskPath}: ${totals}, ${report.blurredRegions} regions blurred`);
+  }
+}
+
+async function runValidate(options: CliOptions): Promise<void> {
+  const root = requirePositional(options, 'dataset-dir|task-folder');
+  const validator = new DatasetValidator(root, { elementsRoot: options.elementsDir, quarantineDir: options.quarantine });
+  const report = await validator.run();
+
+  for (const task of report.tasks) {
+    const outcome = task.completed ? 'completed' : 'not completed';
+    const moved = task.quarantinedTo ? `, quarantined to ${task.quarantinedTo}` : '';
+    console.log(`${task.taskPath}: ${task.steps} steps, ${outcome}${moved}`);
+    for (const problem of task.problems) {
+      const step = problem.stepNumber !== undefined ? ` [step ${problem.stepNumber}]` : '';
+      console.log(`  ${problem.severity}${step}: ${problem.message}`);
+    }
+  }
+  for (const folder of report.orphanedElements) {
+    console.log(`${folder}: no matching task folder`);
+  }
+
+  const mix = Object.entries(report.actions)
+    .sort((a, b) => b[1] - a[1])
+    .map(([type, count]) => `${type}=${count}`)
+    .join(' ');
+  console.log(`\nTasks: ${report.validTasks}/${report.totalTasks} valid`);
+  console.log(`Steps: ${report.totalSteps} (${report.averageSteps.toFixed(1)} per task)`);
+  console.log(`Completion rate: ${(report.completionRate * 100).toFixed(0)}%`);
+  console.log(`Actions: ${mix || 'none'}`);
+
+  const reportPath = options.report ?? path.join(root, 'validation-report.json');
+  await fs.writeFile(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+  console.log(`Report saved to: ${reportPath}`);
+
+  if (report.validTasks < report.totalTasks) {
+    process.exitCode = 1;
+  }
+}
+
+// Values are read from a hidden prompt or from piped stdin, never from argv where they would land in shell history
+async function runSecrets(options: CliOptions): Promise<void> {
+  const [subcommand, name] = options.positionals;
+  const file = options.config.secretsFile ?? 'secrets.enc';
+  const passphrase = requirePassphrase();
+  const secrets = await fileExists(file) ? await readSecretsFile(file, passphrase) : {};
+
+  switch (subcommand) {
+    case 'list': {
+      const names = Object.keys(secrets).sort();
+      console.log(names.length > 0 ? names.join('\n') : `No secrets in ${file}`);
+      return;
+    }
+
+    case 'set':
+      if (!name || !isValidSecretName(name)) {
+        throw new Error(`secrets set requires a name made of letters, digits, "_", "." or "-"`);
+      }
+      secrets[name] = await readSecretValue(name);
+      if (!secrets[name]) {
+        throw new Error(`No value given for ${name}`);
+      }
+      await writeSecretsFile(file, passphrase, secrets);
+      console.log(`Saved ${name} to ${file}; type it with {{secret:${name}}}`);
+      return;
+
+    case 'remove':
+      if (!name || !(name in secrets)) {
+        throw new Error(`No secret named ${name ?? '(none)'} in ${file}`);
+      }
+      delete secrets[name];
+      await writeSecretsFile(file, passphrase, secrets);
+      console.log(`Removed ${name} from ${file}`);
+      return;
+
+    default:
+      throw new Error(`secrets expects list, set <name> or remove <name>\n\n${USAGE}`);
+  }
+}
+
+async function readSecretValue(name: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf-8').replace(/\r?\n$/, '');
+  }
+
+  process.stdout.write(`Value for ${name} (hidden): `);
+  const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+  const rl = readline.createInterface({ input: process.stdin, output: muted, terminal: true });
+  try {
+    return await rl.question('');
+  } finally {
+    rl.close();
+    process.stdout.write('\n');
+  }
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await fs.access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,399 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PNG } from 'pngjs';
+import { TaskDataset } from './task-dataset';
+import {
+  RedactionConfig,
+  RedactionDetector,
+  RedactionFileReport,
+  RedactionReport,
+  UIElement,
+  UIStateRecord,
+} from './types';
+
+type Box = { x: number; y: number; width: number; height: number };
+
+const REDACTED = /\[REDACTED:([^\]]+)\]/g;
+
+const DETECTORS: Record<RedactionDetector, RegExp[]> = {
+  email: [/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g],
+  phone: [/(?<![\w.])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\d{2,4}[\s.-])\d{3,4}[\s.-]?\d{3,4}(?![\w.])/g],
+  token: [
+    /\beyJ[\w-]{8,}\.[\w-]{8,}\.[\w-]{8,}/g, // JWT
+    /\b(?:sk|pk|rk)-[A-Za-z0-9_-]{16,}/g, // API keys
+    /\bgh[pousr]_[A-Za-z0-9]{20,}/g, // GitHub tokens
+    /\bxox[abpr]-[A-Za-z0-9-]{10,}/g, // Slack tokens
+    /\bAKIA[0-9A-Z]{16}\b/g, // AWS access keys
+    /\bBearer\s+[\w.~+/-]{16,}=*/g,
+    /\b[a-f0-9]{32,}\b/gi, // Hex secrets and session ids
+  ],
+};
+
+export const DEFAULT_REDACTION_CONFIG: RedactionConfig = {
+  detectors: ['email', 'phone', 'token'],
+  patterns: [],
+  fieldTypes: ['password'],
+  blurRadius: 10,
+};
+
+// Strings under these keys are file paths, timestamps or enums, never page content
+const SKIP_KEYS = new Set([
+  'screenshotPath',
+  'elementsPath',
+  'markedScreenshotPath',
+  'rankingPath',
+  'accessibilityPath',
+  'annotatedScreenshotPath',
+  'path',
+  'screenshot',
+  'timestamp',
+  'startTime',
+  'endTime',
+  'strategy',
+  'role',
+  'region',
+  'type',
+  'action',
+  'response',
+]);
+
+// Scrubs one dataset/<task> folder in place: text in the JSON artifacts, and the matching element boxes in the screenshots
+export class TaskRedactor {
+  private dataset: TaskDataset;
+  private config: RedactionConfig;
+  private rules: { name: string; pattern: RegExp }[];
+  private files = new Map<string, RedactionFileReport>();
+  private previousReport?: Promise<Map<string, RedactionFileReport>>;
+
+  constructor(dataset: TaskDataset, config: Partial<RedactionConfig> = {}) {
+    this.dataset = dataset;
+    this.config = { ...DEFAULT_REDACTION_CONFIG, ...config };
+    this.rules = [
+      ...this.config.detectors.flatMap(name => DETECTORS[name].map(pattern => ({ name, pattern }))),
+      ...this.config.patterns.map(({ name, pattern, flags }) => ({
+        name,
+        pattern: new RegExp(pattern, flags?.includes('g') ? flags : `${flags ?? ''}g`),
+      })),
+    ];
+  }
+
+  // Standalone pass over an existing capture
+  async run(): Promise<RedactionReport> {
+    for (const state of await this.dataset.loadUiStates()) {
+      await this.redactStep(state);
+    }
+    return this.finish();
+  }
+
+  // Runs after ui-state-N.json and everything it points to has been written
+  async redactStep(state: UIStateRecord): Promise<void> {
+    const n = state.stepNumber;
+    const elementsDir = this.dataset.getElementsPath();
+
+    const after = await this.redactElementsFile(`${elementsDir}/elements-${n}.json`);
+    const before = await this.redactElementsFile(`${elementsDir}/elements-${n}-before.json`)
+      ?? (n > 0 ? await this.loadBoxes(`${elementsDir}/elements-${n - 1}.json`) : null);
+    await this.redactJsonFile(`${elementsDir}/ranking-${n}.json`);
+    await this.redactJsonFile(`${elementsDir}/accessibility-${n}.json`);
+    await this.redactJsonFile(`${elementsDir}/accessibility-${n}-before.json`);
+    await this.redactJsonFile(`${this.dataset.getTaskPath()}/ui-state-${n}.json`);
+
+    await this.blurScreenshot(state.screenshotPath, after ?? []);
+    if (state.before) {
+      const referenceSize = await this.blurScreenshot(state.before.screenshotPath, before ?? []);
+      if (state.before.markedScreenshotPath) {
+        await this.blurScreenshot(state.before.markedScreenshotPath, before ?? []);
+      }
+      if (state.annotatedScreenshotPath) {
+        await this.blurScreenshot(state.annotatedScreenshotPath, before ?? [], referenceSize);
+      }
+    } else if (state.annotatedScreenshotPath) {
+      await this.blurScreenshot(state.annotatedScreenshotPath, before ?? []);
+    }
+  }
+
+  // The summary is rewritten after every step, so it is scrubbed each time as well as at the end
+  async redactSummary(): Promise<void> {
+    await this.redactJsonFile(`${this.dataset.getTaskPath()}/workflow-summary.json`);
+  }
+
+  // Scrubs the summary and writes redaction-report.json
+  async finish(): Promise<RedactionReport> {
+    await this.redactSummary();
+
+    const files = [...this.files.values()].filter(file =>
+      Object.keys(file.matches).length > 0 || file.blurredRegions || file.fullyBlurred
+    );
+    const totals: Record<string, number> = {};
+    for (const file of files) {
+      for (const [name, count] of Object.entries(file.matches)) {
+        totals[name] = (totals[name] ?? 0) + count;
+      }
+    }
+
+    const report: RedactionReport = {
+      task: path.basename(this.dataset.getTaskPath()),
+      generatedAt: new Date().toISOString(),
+      detectors: [...this.config.detectors, ...this.config.patterns.map(pattern => pattern.name), ...this.config.fieldTypes.map(type => `field:${type}`)],
+      totals,
+      blurredRegions: files.reduce((sum, file) => sum + (file.blurredRegions ?? 0), 0),
+      files,
+    };
+
+    await fs.writeFile(`${this.dataset.getTaskPath()}/redaction-report.json`, JSON.stringify(report, null, 2), 'utf-8');
+    return report;
+  }
+
+  // Replaces every detector match with [REDACTED:<name>]. Counts include markers from an earlier pass,
+  // so running again over a redacted folder reproduces the same report
+  redactText(text: string, matches: Record<string, number>): string {
+    let result = text;
+    for (const { name, pattern } of this.rules) {
+      result = result.replace(pattern, `[REDACTED:${name}]`);
+    }
+    for (const [, name] of result.matchAll(REDACTED)) {
+      matches[name] = (matches[name] ?? 0) + 1;
+    }
+    return result;
+  }
+
+  // Returns the boxes of the elements that held something sensitive, or null when the file doesn't exist
+  private async redactElementsFile(file: string): Promise<Box[] | null> {
+    const elements = await readJson<UIElement[]>(file);
+    if (!elements) return null;
+
+    // Counted from scratch like the other JSON files; markers from an earlier pass count again below
+    const report = this.fileReport(file);
+    report.matches = {};
+    const boxes: Box[] = [];
+    const redacted = elements.map(element => {
+      const before = countMatches(report.matches);
+      const clean = this.redactValue(element, report.matches) as UIElement;
+
+      const sensitiveField = !!element.type && this.config.fieldTypes.includes(element.type);
+      const marker = `[REDACTED:field:${element.type}]`;
+      if (sensitiveField && clean.value && clean.value !== marker) {
+        clean.value = marker;
+        report.matches[`field:${element.type}`] = (report.matches[`field:${element.type}`] ?? 0) + 1;
+      }
+      if ((sensitiveField || countMatches(report.matches) > before) && element.boundingBox) {
+        boxes.push(element.boundingBox);
+      }
+      return clean;
+    });
+
+    await fs.writeFile(file, JSON.stringify(redacted, null, 2), 'utf-8');
+    return boxes;
+  }
+
+  // Boxes to blur for an elements file that was already redacted on an earlier step
+  private async loadBoxes(file: string): Promise<Box[] | null> {
+    const elements = await readJson<UIElement[]>(file);
+    if (!elements) return null;
+    return elements
+      .filter(element => element.boundingBox && (
+        (element.type && this.config.fieldTypes.includes(element.type)) ||
+        /\[REDACTED:/.test(JSON.stringify(element))
+      ))
+      .map(element => element.boundingBox!);
+  }
+
+  private async redactJsonFile(file: string): Promise<void> {
+    const data = await readJson<unknown>(file);
+    if (data === null) return;
+    // Counts come from the markers in the file, so a file that is scrubbed again is counted from scratch
+    const report = this.fileReport(file);
+    report.matches = {};
+    await fs.writeFile(file, JSON.stringify(this.redactValue(data, report.matches), null, 2), 'utf-8');
+  }
+
+  private redactValue(value: unknown, matches: Record<string, number>, key?: string): unknown {
+    if (typeof value === 'string') {
+      return key && SKIP_KEYS.has(key) ? value : this.redactText(value, matches);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item, matches, key));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, this.redactValue(v, matches, k)])
+      );
+    }
+    return value;
+  }
+
+  // Blurs each box in place and returns the image size; a cropped image (size differs from the reference) is blurred whole.
+  // Boxes already blurred in the same image, by this pass or one recorded in redaction-report.json, are skipped
+  private async blurScreenshot(
+    recordedPath: string,
+    boxes: Box[],
+    referenceSize?: { width: number; height: number }
+  ): Promise<{ width: number; height: number } | undefined> {
+    const file = await this.dataset.locateFile(recordedPath);
+    if (!file) return undefined;
+
+    const data = await fs.readFile(file);
+    const png = PNG.sync.read(data);
+    const size = { width: png.width, height: png.height };
+
+    const report = this.fileReport(file);
+    const hash = sha256(data);
+    const previous = (await this.loadPreviousReport()).get(path.resolve(file));
+    const known = report.sha256 === hash ? { ...report } : previous?.sha256 === hash ? previous : undefined;
+    const blurred: Box[] = [...(known?.regions ?? [])];
+    let fullyBlurred = known?.fullyBlurred ?? false;
+    let changed = false;
+
+    const cropped = referenceSize && (referenceSize.width !== png.width || referenceSize.height !== png.height);
+    if (boxes.length > 0 && cropped && !fullyBlurred) {
+      blurRegion(png, { x: 0, y: 0, width: png.width, height: png.height }, this.config.blurRadius);
+      fullyBlurred = changed = true;
+    } else if (!fullyBlurred) {
+      for (const box of boxes) {
+        if (blurred.some(done => sameBox(done, box))) continue;
+        if (blurRegion(png, box, this.config.blurRadius)) {
+          blurred.push(box);
+          changed = true;
+        }
+      }
+    }
+
+    const written = changed ? PNG.sync.write(png) : data;
+    if (changed) {
+      await fs.writeFile(file, written);
+    }
+    report.fullyBlurred = fullyBlurred || undefined;
+    report.blurredRegions = blurred.length || undefined;
+    report.regions = blurred.length ? blurred : undefined;
+    report.sha256 = fullyBlurred || blurred.length ? sha256(written) : undefined;
+    return size;
+  }
+
+  // The report a previous pass left in the task folder, by absolute file path
+  private loadPreviousReport(): Promise<Map<string, RedactionFileReport>> {
+    this.previousReport ??= readJson<RedactionReport>(`${this.dataset.getTaskPath()}/redaction-report.json`)
+      .catch(() => null)
+      .then(report => new Map((report?.files ?? []).map(file => [path.resolve(file.file), file])));
+    return this.previousReport;
+  }
+
+  private fileReport(file: string): RedactionFileReport {
+    let report = this.files.get(file);
+    if (!report) {
+      report = { file, matches: {} };
+      this.files.set(file, report);
+    }
+    return report;
+  }
+}
+
+// Every task folder under a dataset directory, or the folder itself when it is a single task
+export async function findTaskFolders(root: string): Promise<string[]> {
+  if (await isTaskFolder(root)) {
+    return [root.replace(/\/+$/, '')];
+  }
+
+  const folders: string[] = [];
+  for (const entry of await fs.readdir(root, { withFileTypes: true })) {
+    const folder = path.join(root, entry.name);
+    if (entry.isDirectory() && await isTaskFolder(folder)) {
+      folders.push(folder);
+    }
+  }
+  return folders.sort();
+}
+
+async function isTaskFolder(folder: string): Promise<boolean> {
+  const files = await fs.readdir(folder);
+  return files.some(file => /^ui-state-\d+\.json$/.test(file));
+}
+
+function sameBox(a: Box, b: Box): boolean {
+  return a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+}
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function countMatches(matches: Record<string, number>): number {
+  return Object.values(matches).reduce((sum, count) => sum + count, 0);
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf-8')) as T;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Three box-blur passes (close to a Gaussian) over the box plus a small margin; false when the box is off-image
+function blurRegion(png: PNG, box: Box, radius: number): boolean {
+  const x0 = Math.max(0, Math.floor(box.x) - 2);
+  const y0 = Math.max(0, Math.floor(box.y) - 2);
+  const x1 = Math.min(png.width, Math.ceil(box.x + box.width) + 2);
+  const y1 = Math.min(png.height, Math.ceil(box.y + box.height) + 2);
+  const width = x1 - x0;
+  const height = y1 - y0;
+  if (width <= 0 || height <= 0) return false;
+
+  const pixels = new Float32Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const src = ((y0 + y) * png.width + (x0 + x)) * 4;
+      pixels.set(png.data.subarray(src, src + 4), (y * width + x) * 4);
+    }
+  }
+
+  for (let pass = 0; pass < 3; pass++) {
+    boxBlur(pixels, width, height, radius, 1, width); // rows
+    boxBlur(pixels, height, width, radius, width, 1); // columns
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dst = ((y0 + y) * png.width + (x0 + x)) * 4;
+      const src = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        png.data[dst + c] = Math.round(pixels[src + c]);
+      }
+    }
+  }
+  return true;
+}
+
+// Sliding-window mean along one axis; step is the pixel stride along a line, lineStride the stride between lines
+function boxBlur(pixels: Float32Array, length: number, lines: number, radius: number, step: number, lineStride: number): void {
+  const line = new Float32Array(length * 4);
+  for (let l = 0; l < lines; l++) {
+    const base = l * lineStride;
+    for (let i = 0; i < length; i++) {
+      line.set(pixels.subarray((base + i * step) * 4, (base + i * step) * 4 + 4), i * 4);
+    }
+
+    for (let c = 0; c < 4; c++) {
+      let sum = 0;
+      let count = 0;
+      for (let i = 0; i <= Math.min(radius, length - 1); i++) {
+        sum += line[i * 4 + c];
+        count++;
+      }
+      for (let i = 0; i < length; i++) {
+        pixels[(base + i * step) * 4 + c] = sum / count;
+        const add = i + radius + 1;
+        const remove = i - radius;
+        if (add < length) {
+          sum += line[add * 4 + c];
+          count++;
+        }
+        if (remove >= 0) {
+          sum -= line[remove * 4 + c];
+          count--;
+        }
+      }
+    }
+  }
+}
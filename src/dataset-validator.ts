@@ -0,0 +1,273 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { accessibilitySelectors } from './accessibility-tree';
+import { TaskDataset } from './task-dataset';
+import { TaskValidation, UIStateRecord, ValidationProblem, ValidationReport, WorkflowSummary } from './types';
+
+const UI_STATE_FILE = /^ui-state-(\d+)\.json$/;
+
+// Integrity checks over a dataset root (or a single task folder) and its elements/ counterpart.
+// Nothing is changed unless a quarantine directory is given; then tasks with errors are moved there
+export class DatasetValidator {
+  private root: string;
+  private elementsRoot: string;
+  private quarantineDir?: string;
+
+  constructor(root: string, options: { elementsRoot?: string; quarantineDir?: string } = {}) {
+    this.root = root.replace(/\/+$/, '');
+    this.elementsRoot = options.elementsRoot ?? 'elements';
+    this.quarantineDir = options.quarantineDir;
+  }
+
+  async run(): Promise<ValidationReport> {
+    const single = await isTaskFolder(this.root);
+    const taskPaths = single ? [this.root] : await this.findTasks();
+
+    const tasks: TaskValidation[] = [];
+    for (const taskPath of taskPaths) {
+      const result = await this.validateTask(taskPath);
+      if (this.quarantineDir && result.problems.some(problem => problem.severity === 'error')) {
+        result.quarantinedTo = await this.quarantine(taskPath);
+      }
+      tasks.push(result);
+    }
+
+    const actions: Record<string, number> = {};
+    for (const task of tasks) {
+      for (const [type, count] of Object.entries(task.actions)) {
+        actions[type] = (actions[type] ?? 0) + count;
+      }
+    }
+    const totalSteps = tasks.reduce((sum, task) => sum + task.steps, 0);
+
+    return {
+      root: this.root,
+      elementsRoot: this.elementsRoot,
+      generatedAt: new Date().toISOString(),
+      totalTasks: tasks.length,
+      validTasks: tasks.filter(task => !task.problems.some(problem => problem.severity === 'error')).length,
+      totalSteps,
+      averageSteps: tasks.length ? totalSteps / tasks.length : 0,
+      completionRate: tasks.length ? tasks.filter(task => task.completed).length / tasks.length : 0,
+      actions,
+      orphanedElements: single ? [] : await this.findOrphanedElements(),
+      tasks,
+    };
+  }
+
+  async validateTask(taskPath: string): Promise<TaskValidation> {
+    const dataset = new TaskDataset(taskPath, this.elementsRoot);
+    const problems: ValidationProblem[] = [];
+    const error = (message: string, stepNumber?: number) => problems.push({ severity: 'error', stepNumber, message });
+    const warning = (message: string, stepNumber?: number) => problems.push({ severity: 'warning', stepNumber, message });
+
+    // Read file by file rather than through loadUiStates, so one broken file doesn't hide the rest
+    const numbered = (await fs.readdir(taskPath))
+      .map(file => ({ file, match: UI_STATE_FILE.exec(file) }))
+      .filter(({ match }) => match)
+      .map(({ file, match }) => ({ file, stepNumber: Number(match![1]) }))
+      .sort((a, b) => a.stepNumber - b.stepNumber);
+
+    const uiStates: UIStateRecord[] = [];
+    for (const { file, stepNumber } of numbered) {
+      try {
+        const state = JSON.parse(await fs.readFile(`${taskPath}/${file}`, 'utf-8')) as UIStateRecord;
+        if (state.stepNumber !== stepNumber) {
+          error(`${file} is labelled step ${state.stepNumber}`, stepNumber);
+        }
+        uiStates.push({ ...state, stepNumber });
+      } catch {
+        error(`${file} is not valid JSON`, stepNumber);
+      }
+    }
+
+    if (numbered.length === 0) {
+      error('No ui-state-N.json files');
+    } else {
+      const present = new Set(numbered.map(({ stepNumber }) => stepNumber));
+      const last = numbered[numbered.length - 1].stepNumber;
+      for (let stepNumber = 0; stepNumber < last; stepNumber++) {
+        if (!present.has(stepNumber)) error(`ui-state-${stepNumber}.json is missing`, stepNumber);
+      }
+    }
+
+    for (const state of uiStates) {
+      try {
+        await this.checkStep(dataset, state, error, warning);
+      } catch (checkError: any) {
+        error(`Could not be checked: ${checkError?.message ?? checkError}`, state.stepNumber);
+      }
+    }
+
+    let summary: WorkflowSummary | null = null;
+    try {
+      summary = await dataset.loadSummary();
+      if (!summary) {
+        warning('workflow-summary.json is missing');
+      } else if (summary.totalSteps !== uiStates.length) {
+        warning(`workflow-summary.json lists ${summary.totalSteps} steps, the folder has ${uiStates.length}`);
+      }
+    } catch {
+      error('workflow-summary.json is not valid JSON');
+    }
+
+    const lastState = uiStates[uiStates.length - 1];
+    const completed = lastState?.action.type === 'complete';
+    if (uiStates.length > 0 && !completed) {
+      const outcome = summary?.status && summary.status !== 'completed'
+        ? ` (status ${summary.status}${summary.error ? `: ${summary.error.message}` : ''})`
+        : '';
+      error(`Run does not end with a complete action${outcome}`, lastState.stepNumber);
+    }
+
+    const actions: Record<string, number> = {};
+    for (const state of uiStates) {
+      actions[state.action.type] = (actions[state.action.type] ?? 0) + 1;
+    }
+
+    return {
+      taskPath,
+      task: summary?.task,
+      steps: uiStates.length,
+      actions,
+      completed,
+      problems,
+    };
+  }
+
+  private async checkStep(
+    dataset: TaskDataset,
+    state: UIStateRecord,
+    error: (message: string, stepNumber?: number) => void,
+    warning: (message: string, stepNumber?: number) => void
+  ): Promise<void> {
+    const { stepNumber } = state;
+    const elementsFile = `${dataset.getElementsPath()}/elements-${stepNumber}.json`;
+
+    if (!await dataset.locateFile(state.screenshotPath)) {
+      error(`Screenshot ${path.basename(state.screenshotPath)} is missing`, stepNumber);
+    }
+    const elements = await readSnapshot(() => dataset.loadElements(stepNumber), elementsFile, error, stepNumber);
+    if (elements === null) {
+      error(`${elementsFile} is missing`, stepNumber);
+    }
+
+    if (state.before) {
+      if (!await dataset.locateFile(state.before.screenshotPath)) {
+        error(`Screenshot ${path.basename(state.before.screenshotPath)} is missing`, stepNumber);
+      }
+      const beforeFile = `${dataset.getElementsPath()}/elements-${stepNumber}-before.json`;
+      if (await readSnapshot(() => dataset.loadElements(stepNumber, 'before'), beforeFile, error, stepNumber) === null) {
+        error(`${beforeFile} is missing`, stepNumber);
+      }
+    }
+    if (state.annotatedScreenshotPath && !await dataset.locateFile(state.annotatedScreenshotPath)) {
+      warning(`Annotated screenshot ${path.basename(state.annotatedScreenshotPath)} is missing`, stepNumber);
+    }
+
+    // The selector has to come from the page the action was decided on: the before snapshot, or the previous
+    // step's result in captures older than before snapshots
+    const selector = state.action.selector;
+    if (!selector || stepNumber === 0) return;
+
+    const quiet = () => undefined;
+    const domElements =
+      await readSnapshot(() => dataset.loadElements(stepNumber, 'before'), '', quiet) ??
+      await readSnapshot(() => dataset.loadElements(stepNumber - 1), '', quiet);
+    const tree =
+      await readSnapshot(() => dataset.loadAccessibilityTree(stepNumber, 'before'), '', quiet) ??
+      await readSnapshot(() => dataset.loadAccessibilityTree(stepNumber - 1), '', quiet);
+    if (!domElements && !tree) return;
+
+    const known = new Set([
+      ...(domElements ?? []).map(element => element.selector),
+      ...(tree ? accessibilitySelectors(tree) : []),
+    ]);
+    if (!known.has(selector)) {
+      error(`Selector ${selector} is not in the element snapshot the action was chosen from`, stepNumber);
+    }
+  }
+
+  // Task folders are the root's subdirectories with steps or a summary; anything else (reports, quarantine) is skipped
+  private async findTasks(): Promise<string[]> {
+    const folders: string[] = [];
+    for (const entry of await fs.readdir(this.root, { withFileTypes: true })) {
+      const folder = path.join(this.root, entry.name);
+      if (entry.isDirectory() && await isTaskFolder(folder)) {
+        folders.push(folder);
+      }
+    }
+    return folders.sort();
+  }
+
+  private async findOrphanedElements(): Promise<string[]> {
+    let entries;
+    try {
+      entries = await fs.readdir(this.elementsRoot, { withFileTypes: true });
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const orphaned: string[] = [];
+    for (const entry of entries) {
+      if (entry.isDirectory() && !await exists(path.join(this.root, entry.name))) {
+        orphaned.push(path.join(this.elementsRoot, entry.name));
+      }
+    }
+    return orphaned.sort();
+  }
+
+  // Mirrors the dataset/elements split under the quarantine directory, so a task can be inspected there
+  // (TaskDataset with <quarantine>/elements as elements root) or moved back as is
+  private async quarantine(taskPath: string): Promise<string> {
+    const datasetDir = path.join(this.quarantineDir!, 'dataset');
+    const elementsDir = path.join(this.quarantineDir!, 'elements');
+    await fs.mkdir(datasetDir, { recursive: true });
+    await fs.mkdir(elementsDir, { recursive: true });
+
+    const base = path.basename(taskPath);
+    let name = base;
+    for (let suffix = 2; await exists(path.join(datasetDir, name)) || await exists(path.join(elementsDir, name)); suffix++) {
+      name = `${base}-${suffix}`;
+    }
+
+    const target = path.join(datasetDir, name);
+    await fs.rename(taskPath, target);
+    const elementsPath = path.join(this.elementsRoot, base);
+    if (await exists(elementsPath)) {
+      await fs.rename(elementsPath, path.join(elementsDir, name));
+    }
+    return target;
+  }
+}
+
+async function isTaskFolder(folder: string): Promise<boolean> {
+  const files = await fs.readdir(folder);
+  return files.some(file => UI_STATE_FILE.test(file) || file === 'workflow-summary.json');
+}
+
+// Missing files come back as null. Unreadable ones are reported under label and come back as undefined, so they
+// aren't reported as missing too
+async function readSnapshot<T>(
+  load: () => Promise<T | null>,
+  label: string,
+  error: (message: string, stepNumber?: number) => void,
+  stepNumber?: number
+): Promise<T | null | undefined> {
+  try {
+    return await load();
+  } catch {
+    error(`${label} is not valid JSON`, stepNumber);
+    return undefined;
+  }
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,218 @@
+import { accessibilitySelectors } from './accessibility-tree';
+import { formatFramePath } from './element-ranker';
+import { ActionType, LLMDecision, PageState, UIElement } from './types';
+
+export const ACTION_TYPES: ActionType[] = [
+  'click',
+  'type',
+  'select',
+  'hover',
+  'scroll',
+  'keypress',
+  'wait',
+  'back',
+  'navigate',
+  'upload',
+  'switch_tab',
+  'close_tab',
+  'complete',
+];
+
+const SELECTOR_REQUIRED: ActionType[] = ['click', 'type', 'select', 'hover', 'upload'];
+
+// Returns a list of problems; an empty list means the decision can be executed against this page
+export function validateDecision(decision: unknown, state: PageState): string[] {
+  if (!decision || typeof decision !== 'object' || Array.isArray(decision)) {
+    return ['Response must be a JSON object'];
+  }
+
+  const d = decision as Record<string, unknown>;
+  const problems: string[] = [];
+
+  if (typeof d.action !== 'string' || !ACTION_TYPES.includes(d.action as ActionType)) {
+    problems.push(`"action" must be one of: ${ACTION_TYPES.join(', ')} (got ${JSON.stringify(d.action)})`);
+    return problems;
+  }
+  const action = d.action as ActionType;
+
+  if (typeof d.reasoning !== 'string' || d.reasoning.trim() === '') {
+    problems.push('"reasoning" must be a non-empty string');
+  }
+  if (typeof d.completed !== 'boolean') {
+    problems.push('"completed" must be true or false');
+  }
+
+  if (d.element !== undefined) {
+    // An element index stands in for the selector; the agent maps it back before acting
+    // Only listed elements are marked, so a number from outside the list can't have been read off the screenshot
+    const listed = state.ranking?.selected.map(({ index }) => index);
+    if (
+      typeof d.element !== 'number' ||
+      !Number.isInteger(d.element) ||
+      !state.interactiveElements[d.element] ||
+      (listed && !listed.includes(d.element))
+    ) {
+      const range = listed ? 'a [n] from the interactive elements list' : `0-${state.interactiveElements.length - 1}`;
+      problems.push(`"element" must be one of the numbered marks, ${range} (got ${JSON.stringify(d.element)})`);
+    }
+  } else if (d.selector !== undefined) {
+    if (typeof d.selector !== 'string' || d.selector === '') {
+      problems.push('"selector" must be a non-empty string');
+    } else if (!isKnownSelector(d.selector, state)) {
+      problems.push(`Selector ${JSON.stringify(d.selector)} is not in the ${describeSources(state)}; copy a "selector" value exactly`);
+    } else {
+      problems.push(...checkFrame(d.selector, d.frame, state));
+    }
+  } else if (SELECTOR_REQUIRED.includes(action)) {
+    problems.push(`"${action}" requires "selector" or "element"`);
+  }
+
+  switch (action) {
+    case 'type':
+      if (typeof d.text !== 'string' || d.text === '') {
+        problems.push('"type" requires a non-empty "text"');
+      } else {
+        for (const [, name] of d.text.matchAll(/\{\{secret:([^}]*)\}\}/g)) {
+          if (!state.secretNames?.includes(name)) {
+            problems.push(`Unknown secret "${name}"; available secrets: ${state.secretNames?.join(', ') || 'none'}`);
+          }
+        }
+      }
+      break;
+
+    case 'select':
+      if (typeof d.value !== 'string' || d.value === '') {
+        problems.push('"select" requires the option label in "value"');
+      }
+      break;
+
+    case 'keypress':
+      if (typeof d.key !== 'string' || d.key === '') {
+        problems.push('"keypress" requires "key", e.g. "Enter" or "Escape"');
+      }
+      break;
+
+    case 'scroll':
+      if (d.direction !== undefined && d.direction !== 'up' && d.direction !== 'down') {
+        problems.push('"direction" must be "up" or "down"');
+      }
+      if (d.amount !== undefined && (typeof d.amount !== 'number' || d.amount <= 0)) {
+        problems.push('"amount" must be a positive number of pixels');
+      }
+      break;
+
+    case 'wait':
+      if (d.duration !== undefined && (typeof d.duration !== 'number' || d.duration <= 0)) {
+        problems.push('"duration" must be a positive number of milliseconds');
+      }
+      break;
+
+    case 'navigate':
+      if (typeof d.url !== 'string' || !isAbsoluteUrl(d.url)) {
+        problems.push('"navigate" requires an absolute "url"');
+      }
+      break;
+
+    case 'upload':
+      if (typeof d.file !== 'string' || !state.uploadFiles?.includes(d.file)) {
+        problems.push(`"upload" requires "file" set to one of the available files: ${state.uploadFiles?.join(', ') || 'none'}`);
+      }
+      break;
+
+    case 'switch_tab':
+      if (typeof d.tab !== 'number' || !state.tabs?.some(tab => tab.id === d.tab)) {
+        problems.push(`"switch_tab" requires "tab" set to one of the open tab ids: ${formatTabIds(state)}`);
+      } else if (d.tab === state.activeTabId) {
+        problems.push(`Tab ${d.tab} is already the active tab`);
+      }
+      break;
+
+    case 'close_tab':
+      if (d.tab !== undefined && (typeof d.tab !== 'number' || !state.tabs?.some(tab => tab.id === d.tab))) {
+        problems.push(`"tab" must be one of the open tab ids: ${formatTabIds(state)}`);
+      }
+      if ((state.tabs?.length ?? 1) <= 1) {
+        problems.push('Cannot close the only open tab');
+      }
+      break;
+  }
+
+  return problems;
+}
+
+// Replaces an element index with that element's selector, so everything downstream works on selectors
+export function resolveElementIndex(decision: LLMDecision, state: PageState): LLMDecision {
+  if (decision.element === undefined) {
+    return decision;
+  }
+  const element = state.interactiveElements[decision.element];
+  return element
+    ? { ...decision, selector: element.selector, frame: element.framePath && formatFramePath(element.framePath) }
+    : decision;
+}
+
+// Selectors are only unique within one document, so "frame" says which document; without it the top one is meant,
+// or the only frame that has the selector
+export function findElement(elements: UIElement[], selector: string, frame?: string): UIElement | undefined {
+  const matches = elements.filter(el => el.selector === selector);
+  if (frame !== undefined) {
+    return matches.find(el => el.framePath && formatFramePath(el.framePath) === frame);
+  }
+  return matches.find(el => !el.framePath) ?? (new Set(matches.map(frameOf)).size === 1 ? matches[0] : undefined);
+}
+
+export function formatCorrection(problems: string[]): string {
+  return `Your previous response could not be executed:
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+Respond again with a corrected JSON object in the required format. Selectors must be copied exactly from the interactive elements list.`;
+}
+
+// Selectors from the accessibility tree are accepted whenever one was captured, even alongside the element list
+function isKnownSelector(selector: string, state: PageState): boolean {
+  return state.interactiveElements.some(el => el.selector === selector)
+    || (!!state.accessibilityTree && accessibilitySelectors(state.accessibilityTree).includes(selector));
+}
+
+function frameOf(element: UIElement): string | undefined {
+  return element.framePath && formatFramePath(element.framePath);
+}
+
+function checkFrame(selector: string, frame: unknown, state: PageState): string[] {
+  const frames = new Set(state.interactiveElements.filter(el => el.selector === selector).map(frameOf));
+  if (frame !== undefined) {
+    if (typeof frame !== 'string' || !frames.has(frame)) {
+      const listed = [...frames].filter(Boolean).map(value => JSON.stringify(value)).join(', ') || 'none';
+      return [`"frame" must be the frame= value of an element with selector ${JSON.stringify(selector)} (${listed}), or left out for the top document`];
+    }
+    return [];
+  }
+  if (!frames.has(undefined) && frames.size > 1) {
+    return [`Selector ${JSON.stringify(selector)} appears in several frames; add "frame" with the frame= value of the element you mean`];
+  }
+  return [];
+}
+
+function describeSources(state: PageState): string {
+  switch (state.observationMode) {
+    case 'accessibility':
+      return 'accessibility tree';
+    case 'both':
+      return 'interactive elements list or the accessibility tree';
+    default:
+      return 'interactive elements list';
+  }
+}
+
+function formatTabIds(state: PageState): string {
+  return state.tabs?.map(tab => tab.id).join(', ') || 'none';
+}
+
+function isAbsoluteUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,156 @@
+import { ElementRanking, RankedElement, UIElement } from './types';
+
+export const DEFAULT_ELEMENT_TOKEN_BUDGET = 4000;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'in',
+  'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'should', 'that', 'the', 'this', 'to', 'up', 'when',
+  'where', 'with', 'you', 'your', 'has', 'have', 'been', 'will',
+]);
+
+const REGION_WEIGHTS: Record<string, number> = {
+  main: 1,
+  header: 0.5,
+  nav: 0.5,
+  sidebar: 0.5,
+  footer: -1.5,
+};
+
+const ROLE_WEIGHTS: Record<string, number> = {
+  textbox: 1,
+  searchbox: 1,
+  combobox: 1,
+  button: 0.8,
+  menuitem: 0.6,
+  tab: 0.5,
+  checkbox: 0.5,
+  link: 0.3,
+};
+
+export interface RankingContext {
+  task: string;
+  endState?: string;
+  viewport?: { width: number; height: number };
+  tokenBudget?: number;
+}
+
+// Scores every element against the task, drops near-duplicates and keeps the best ones that fit the token budget
+export function rankElements(elements: UIElement[], context: RankingContext): ElementRanking {
+  const tokenBudget = context.tokenBudget ?? DEFAULT_ELEMENT_TOKEN_BUDGET;
+  const keywords = new Set(tokenize(`${context.task} ${context.endState ?? ''}`));
+
+  const scored = elements
+    .map((element, index) => ({ index, element, score: scoreElement(element, keywords, context) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  const seen = new Set<string>();
+  const selected: RankedElement[] = [];
+  let duplicates = 0;
+  let estimatedTokens = 0;
+
+  for (const { index, element, score } of scored) {
+    // Repeated rows like "Delete" buttons in a table only need to appear once, at their best-scoring position
+    const label = elementLabel(element);
+    const key = `${element.role}|${label.toLowerCase()}|${element.region ?? ''}`;
+    if (label && seen.has(key)) {
+      duplicates++;
+      continue;
+    }
+    seen.add(key);
+
+    const cost = estimateTokens(formatElement(index, element));
+    if (estimatedTokens + cost > tokenBudget) {
+      continue;
+    }
+    estimatedTokens += cost;
+    selected.push({ index, score: Math.round(score * 100) / 100 });
+  }
+
+  return {
+    selected,
+    total: elements.length,
+    duplicates,
+    estimatedTokens,
+    tokenBudget,
+  };
+}
+
+// One line per element, most relevant first: [index] role "label" extras selector: ...
+export function serializeElements(elements: UIElement[], ranking: ElementRanking): string {
+  return ranking.selected
+    .map(({ index }) => formatElement(index, elements[index]))
+    .join('\n');
+}
+
+// How the prompt names an element's frame, and what the model copies into "frame"
+export function formatFramePath(framePath: string[]): string {
+  return framePath.join(' > ');
+}
+
+export function elementLabel(element: UIElement): string {
+  const raw = element.ariaLabel || element.text || element.placeholder || element.title || element.name || '';
+  const label = raw.replace(/\s+/g, ' ').trim();
+  return label.length > 80 ? `${label.slice(0, 77)}...` : label;
+}
+
+function formatElement(index: number, element: UIElement): string {
+  const parts = [`[${index}]`, element.role || 'element'];
+
+  const label = elementLabel(element);
+  if (label) parts.push(JSON.stringify(label));
+  if (element.placeholder && element.placeholder !== label) parts.push(`placeholder=${JSON.stringify(element.placeholder)}`);
+  if (element.type) parts.push(`type=${element.type}`);
+  if (element.value) parts.push(`value=${JSON.stringify(element.value.slice(0, 40))}`);
+  if (element.region) parts.push(`region=${element.region}`);
+  if (element.framePath) parts.push(`frame=${formatFramePath(element.framePath)}`);
+  if (!element.isVisible) parts.push('hidden');
+  parts.push(`selector: ${element.selector}`);
+
+  return parts.join(' ');
+}
+
+function scoreElement(element: UIElement, keywords: Set<string>, context: RankingContext): number {
+  let score = 0;
+
+  const label = elementLabel(element).toLowerCase();
+  const labelWords = tokenize(`${label} ${element.placeholder ?? ''} ${element.name ?? ''}`);
+  const matches = labelWords.filter(word => keywords.has(word)).length;
+  score += Math.min(matches, 3) * 3;
+  if (label.length >= 3 && context.task.toLowerCase().includes(label)) {
+    score += 4;
+  }
+  if (!label) {
+    score -= 1;
+  }
+
+  score += ROLE_WEIGHTS[element.role] ?? 0;
+  score += REGION_WEIGHTS[element.region ?? ''] ?? 0;
+
+  if (!element.isVisible) {
+    score -= 3;
+  } else if (isInViewport(element, context.viewport)) {
+    score += 2;
+  }
+
+  return score;
+}
+
+function isInViewport(element: UIElement, viewport?: { width: number; height: number }): boolean {
+  const box = element.boundingBox;
+  if (!box || !viewport) return false;
+  return box.x < viewport.width && box.y < viewport.height && box.x + box.width > 0 && box.y + box.height > 0;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    // Crude stemming so "pages" matches "page" and "filtering" matches "filter"
+    .map(word => word.replace(/(ing|s)$/, ''));
+}
+
+// Roughly four characters per token for English text and selectors
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4) + 1;
+}
@@ -0,0 +1,62 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { LLMService } from './llm-service';
+import { ScriptedLLMService } from './scripted-llm-service';
+import { LLMDecision, LLMProviderConfig, LLMUsage, PageState, ScriptedFixture, WorkflowStep } from './types';
+
+export interface LLMProvider {
+  determineInitialUrl(userTask: string): Promise<string>;
+  determineEndState(userTask: string): Promise<string>;
+  determineNextAction(
+    userTask: string,
+    currentState: PageState,
+    history: WorkflowStep[],
+    endState: string
+  ): Promise<LLMDecision>;
+  // Optional: rephrase generated tutorial steps into natural instructions, one output per input
+  rewriteInstructions?(userTask: string, instructions: string[]): Promise<string[]>;
+  // Optional: token usage since the previous call, which resets it
+  takeUsage?(): LLMUsage;
+  // Optional: model name recorded in the workflow summary
+  getModel?(): string;
+}
+
+export async function createLLMProvider(config: LLMProviderConfig): Promise<LLMProvider> {
+  switch (config.provider) {
+    case 'openai':
+      if (!config.apiKey) {
+        throw new Error('OPENAI_API_KEY environment variable is required');
+      }
+      return new LLMService(config.apiKey, {
+        model: config.model,
+        maxCorrections: config.maxCorrections,
+      });
+
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new Error('The openai-compatible provider requires a base URL');
+      }
+      // Local servers usually ignore the key, but the client insists on one
+      return new LLMService(config.apiKey || 'not-needed', {
+        baseUrl: config.baseUrl,
+        model: config.model,
+        maxCorrections: config.maxCorrections,
+      });
+
+    case 'scripted': {
+      if (!config.scriptPath) {
+        throw new Error('The scripted provider requires a fixture path');
+      }
+      const fixture = JSON.parse(await fs.readFile(config.scriptPath, 'utf-8')) as ScriptedFixture;
+      // A bare path is a page next to the fixture, so fixtures don't depend on where the repo is checked out
+      if (typeof fixture.initialUrl === 'string' && !/^[a-z][a-z0-9+.-]*:/i.test(fixture.initialUrl)) {
+        fixture.initialUrl = pathToFileURL(path.resolve(path.dirname(config.scriptPath), fixture.initialUrl)).href;
+      }
+      return new ScriptedLLMService(fixture);
+    }
+
+    default:
+      throw new Error(`Unknown LLM provider: ${(config as LLMProviderConfig).provider}`);
+  }
+}
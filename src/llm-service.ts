@@ -1,12 +1,90 @@
 import OpenAI from 'openai';
-import { LLMDecision, PageState, WorkflowStep } from './types';
+import {
+  ChatCompletion,
+  ChatCompletionCreateParamsNonStreaming,
+  ChatCompletionMessageParam,
+} from 'openai/resources/chat/completions';
+import { LLMProvider } from './llm-provider';
+import { validateDecision, formatCorrection } from './decision-validator';
+import { DEFAULT_ELEMENT_TOKEN_BUDGET, rankElements, serializeElements } from './element-ranker';
+import { serializeAccessibilityTree } from './accessibility-tree';
+import { LLMDecision, LLMUsage, ObservationMode, PageState, WorkflowStep } from './types';
 
-export class LLMService {
+const DOM_SELECTOR_RULES = `  CRITICAL SELECTOR RULES:
+  - You MUST copy the EXACT "selector" value from the interactive elements list
+  - DO NOT construct your own selectors based on role, tag name, or attributes
+  - DO NOT create selectors like div[role="textbox"] or button[role="button"]
+  - ONLY use selectors that appear after "selector:" in the provided elements
+  - Each element is one line: [n] role "label" details selector: <selector>
+  - The role is for YOUR understanding only - never use it to build a selector
+  - Example: If the line is [4] textbox "Untitled" selector: h1[contenteditable="true"]
+    then you MUST use "h1[contenteditable=\\"true\\"]" NOT "h1[role=\\"textbox\\"]"
+  
+  Selector Priority (all must be EXACT copies from the list):
+  1. Elements with data-testid attributes (most stable)
+  2. Elements with aria-label attributes (semantic)
+  3. Elements with placeholder attributes (for inputs)
+  4. Elements with :has-text() (for buttons/links)
+  5. Contenteditable elements with [contenteditable="true"]
+  6. Other provided selectors
+  
+  - For contenteditable title fields, look for selectors like h1[contenteditable="true"]
+  - For text areas, look for selectors with aria-label like div[aria-label="Start typing to edit text"]
+  - Elements inside iframes show frame=...; when the same selector is listed under more than one frame, copy the target's frame= value into "frame" (leave it out for elements without frame=)`;
+
+const ACCESSIBILITY_SELECTOR_RULES = `  CRITICAL SELECTOR RULES:
+  - You MUST copy the EXACT "selector" value from the accessibility tree
+  - The tree lists the page as assistive technology sees it, one node per line, indented under its parent:
+    role "accessible name" [states] selector: <selector>
+  - States such as [checked], [expanded], [collapsed], [selected] and [disabled] describe the control right now
+  - Only nodes you can act on have a selector; headings, text and landmarks are there for context
+  - DO NOT construct your own selectors, even in the same role=... format
+  - When several nodes share a role and name, their selectors end in >> nth=N; keep that suffix
+  - Example: If the line is button "Save" [disabled] selector: role=button[name="Save"s]
+    then you MUST use "role=button[name=\\"Save\\"s]"`;
+
+const BOTH_SELECTOR_NOTE = `
+
+  The page is described twice: by the interactive elements list and by the accessibility tree. A selector copied exactly from either one is valid. Use the tree's roles, names and states to understand the page.`;
+
+// Talks to OpenAI, or to any OpenAI-compatible endpoint when baseUrl is set
+export class LLMService implements LLMProvider {
   private client: OpenAI;
   private model: string = 'gpt-4o-mini';
+  private maxCorrections: number = 2;
+  private usage: LLMUsage = emptyUsage();
+
+  constructor(
+    apiKey: string,
+    options: { baseUrl?: string; model?: string; maxCorrections?: number } = {}
+  ) {
+    this.client = new OpenAI({ apiKey, baseURL: options.baseUrl });
+    if (options.model) {
+      this.model = options.model;
+    }
+    if (options.maxCorrections !== undefined) {
+      this.maxCorrections = options.maxCorrections;
+    }
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  takeUsage(): LLMUsage {
+    const usage = this.usage;
+    this.usage = emptyUsage();
+    return usage;
+  }
 
-  constructor(apiKey: string) {
-    this.client = new OpenAI({ apiKey });
+  // Every request goes through here so its tokens are counted
+  private async createCompletion(params: ChatCompletionCreateParamsNonStreaming): Promise<ChatCompletion> {
+    const response = await this.client.chat.completions.create(params);
+    this.usage.llmCalls++;
+    this.usage.promptTokens += response.usage?.prompt_tokens ?? 0;
+    this.usage.completionTokens += response.usage?.completion_tokens ?? 0;
+    this.usage.totalTokens += response.usage?.total_tokens ?? 0;
+    return response;
   }
 
   private async retryWithBackoff<T>(
@@ -31,7 +109,7 @@ export class LLMService {
 
   async determineEndState(userTask: string): Promise<string> {
     return this.retryWithBackoff(async () => {
-      const response = await this.client.chat.completions.create({
+      const response = await this.createCompletion({
         model: this.model,
         messages: [
           {
@@ -63,31 +141,86 @@ export class LLMService {
     history: WorkflowStep[],
     endState: string
   ): Promise<LLMDecision> {
-    return this.retryWithBackoff(async () => {
-      const historyContext = this.formatHistory(history);
-      
-      const systemPrompt = this.buildSystemPrompt(endState);
-      const userPrompt = this.buildUserPrompt(userTask, currentState, historyContext);
+    const historyContext = this.formatHistory(history);
+
+    const marked = !!currentState.markedScreenshotBase64;
+    const systemPrompt = this.buildSystemPrompt(endState, marked, this.observationMode(currentState));
+    const userPrompt = this.buildUserPrompt(userTask, currentState, historyContext, endState);
+
+    const messages: ChatCompletionMessageParam[] = [
+      { role: 'system', content: systemPrompt },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: userPrompt },
+          {
+            type: 'image_url',
+            image_url: {
+              url: `data:image/png;base64,${currentState.markedScreenshotBase64 ?? currentState.screenshotBase64}`,
+            },
+          },
+        ],
+      },
+    ];
+
+    // Invalid decisions are sent back with a correction instead of failing the run
+    for (let attempt = 0; ; attempt++) {
+      const content = await this.retryWithBackoff(async () => {
+        const response = await this.createCompletion({
+          model: this.model,
+          messages,
+          response_format: { type: 'json_object' },
+          temperature: 0.1,
+        });
+
+        const content = response.choices[0].message.content;
+        if (!content) {
+          throw new Error('No response from LLM');
+        }
+        return content;
+      });
+
+      let decision: unknown;
+      let problems: string[];
+      try {
+        decision = JSON.parse(content);
+        problems = validateDecision(decision, currentState);
+      } catch {
+        problems = ['Response is not valid JSON'];
+      }
+
+      if (problems.length === 0) {
+        return decision as LLMDecision;
+      }
 
-      const response = await this.client.chat.completions.create({
+      if (attempt >= this.maxCorrections) {
+        throw new Error(`Invalid LLM decision after ${attempt + 1} attempts: ${problems.join('; ')}`);
+      }
+
+      console.log(`Invalid decision (attempt ${attempt + 1}), asking for a correction: ${problems.join('; ')}`);
+      messages.push(
+        { role: 'assistant', content },
+        { role: 'user', content: formatCorrection(problems) }
+      );
+    }
+  }
+
+  async determineInitialUrl(userTask: string): Promise<string> {
+    return this.retryWithBackoff(async () => {
+      const response = await this.createCompletion({
         model: this.model,
         messages: [
-          { role: 'system', content: systemPrompt },
+          {
+            role: 'system',
+            content: 'You determine which web application to navigate to based on the user\'s intended task. Return only a JSON object with "url" field.',
+          },
           {
             role: 'user',
-            content: [
-              { type: 'text', text: userPrompt },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: `data:image/png;base64,${currentState.screenshotBase64}`,
-                },
-              },
-            ],
+            content: `Task: "${userTask}"\n\nReturn the login or main URL for the application. Response format: {"url": "https://..."}`,
           },
         ],
         response_format: { type: 'json_object' },
-        temperature: 0.1,
+        temperature: 0,
       });
 
       const content = response.choices[0].message.content;
@@ -95,26 +228,27 @@ export class LLMService {
         throw new Error('No response from LLM');
       }
 
-      return JSON.parse(content) as LLMDecision;
+      const result = JSON.parse(content) as { url: string };
+      return result.url;
     });
   }
 
-  async determineInitialUrl(userTask: string): Promise<string> {
+  async rewriteInstructions(userTask: string, instructions: string[]): Promise<string[]> {
     return this.retryWithBackoff(async () => {
-      const response = await this.client.chat.completions.create({
+      const response = await this.createCompletion({
         model: this.model,
         messages: [
           {
             role: 'system',
-            content: 'You determine which web application to navigate to based on the user\'s intended task. Return only a JSON object with "url" field.',
+            content: 'You edit step-by-step software tutorials. Rewrite each step as a clear, friendly instruction for a person following along. Keep quoted UI labels and typed values exactly as given, do not add, merge or drop steps, and return only a JSON object with a "steps" array.',
           },
           {
             role: 'user',
-            content: `Task: "${userTask}"\n\nReturn the login or main URL for the application. Response format: {"url": "https://..."}`,
+            content: `Tutorial: "${userTask}"\n\nSteps:\n${instructions.map((step, i) => `${i + 1}. ${step}`).join('\n')}\n\nResponse format: {"steps": ["...", "..."]} with exactly ${instructions.length} entries.`,
           },
         ],
         response_format: { type: 'json_object' },
-        temperature: 0,
+        temperature: 0.3,
       });
 
       const content = response.choices[0].message.content;
@@ -122,76 +256,142 @@ export class LLMService {
         throw new Error('No response from LLM');
       }
 
-      const result = JSON.parse(content) as { url: string };
-      return result.url;
+      const result = JSON.parse(content) as { steps: string[] };
+      return result.steps;
     });
   }
 
-  private buildSystemPrompt(endState: string): string {
+  // A run asked for the accessibility tree can still come back without one, e.g. on a blank page
+  private observationMode(state: PageState): ObservationMode {
+    const mode = state.observationMode ?? 'dom';
+    return mode !== 'dom' && !state.accessibilityTree ? 'dom' : mode;
+  }
+
+  private buildSystemPrompt(endState: string, marked: boolean, mode: ObservationMode): string {
+    const marksSection = marked ? `
+
+  NUMBERED MARKS:
+  The screenshot has a numbered box drawn around each interactive element. The number matches the [n] at the start of that element's line in the interactive elements list.
+  - Identify the target in the screenshot and answer with its number in "element" (e.g. "element": 12) instead of "selector"
+  - Check that the element's text and role in the list match what you see inside that box
+  - "element" is preferred over "selector" whenever the target has a mark` : '';
+
     return `You are an expert UI automation agent. Analyze the current page state and determine the next action to complete the user's task.
   
   You must respond with a JSON object containing:
   {
-    "action": "click" | "type" | "navigate" | "complete",
-    "selector": "Selector for the element to interact with (required for click/type)",
-    "reasoning selector": "brief explanation of why this selector is the best choice for the action",
-    "text": "text to type (required for type action)",
+    "action": "click" | "type" | "select" | "hover" | "scroll" | "keypress" | "wait" | "back" | "navigate" | "upload" | "switch_tab" | "close_tab" | "complete",
+    "selector": "Selector for the element to interact with (required for click/type/select/hover/upload, optional for scroll/keypress/wait)",${marked ? `
+    "element": number of the marked element to interact with (use instead of "selector"),` : ''}
+${mode !== 'accessibility' ? `    "frame": "frame= value of the element, only needed when its selector appears under more than one frame",
+` : ''}    "reasoning selector": "brief explanation of why this selector is the best choice for the action",
+    "text": "text to type (required for type action); may contain {{secret:name}} placeholders from SECRETS",
+    "value": "visible label of the option to choose (required for select action)",
+    "key": "key or shortcut to press, e.g. Enter, Escape, Control+K (required for keypress action)",
+    "direction": "up" | "down" (scroll action, defaults to down),
+    "amount": pixels to scroll (scroll action, defaults to 500),
+    "duration": milliseconds to wait (wait action, defaults to 1000),
+    "url": "absolute URL to open (required for navigate action)",
+    "file": "name of a file from UPLOADABLE FILES (required for upload action)",
+    "tab": id of the tab from OPEN TABS (required for switch_tab, optional for close_tab - defaults to the active tab),
     "reasoning": "brief explanation of why this action advances toward the goal",
     "completed": boolean indicating if the task is fully completed
   }
+
+  ACTIONS:
+  - click: click an element
+  - type: fill an input, textarea or contenteditable element with text
+  - select: choose an option in a native <select> dropdown
+  - hover: move the mouse over an element to reveal hidden menus or buttons
+  - scroll: scroll the page, or the list under "selector", to reveal more content
+  - keypress: press a key or shortcut, focused on "selector" if given (e.g. Enter to submit, Escape to close a popup)
+  - wait: wait for async content, for "selector" to appear if given
+  - back: go back to the previous page in browser history
+  - navigate: open a URL directly (only when no on-page element leads there)
+  - upload: attach a file to a file input, or to the upload button that opens the file picker
+  - switch_tab: make another open tab active (new tabs and popups become active automatically)
+  - close_tab: close a tab, e.g. a finished sign-in popup or a tab opened by mistake
+  - complete: the end state has been reached
   
   TASK END STATE:
   ${endState}
   
   IMPORTANT: Set completed=true as soon as the above end state is reached. Do NOT continue with additional actions beyond this point.
+
+  Browser dialogs (alert, confirm, prompt) are answered automatically and never appear in the screenshot; the result of the action that raised one says what it said and whether it was accepted. Downloads are saved automatically and reported the same way.
   
-  CRITICAL SELECTOR RULES:
-  - You MUST copy the EXACT "selector" value from the interactive elements list
-  - DO NOT construct your own selectors based on role, tag name, or attributes
-  - DO NOT create selectors like div[role="textbox"] or button[role="button"]
-  - ONLY use selectors that appear in the "selector" field of the provided elements
-  - The "role" field is for YOUR understanding only - never use it to build a selector
-  - Example: If element has {"selector": "h1[contenteditable=\\"true\\"]", "role": "textbox"}
-    then you MUST use "h1[contenteditable=\\"true\\"]" NOT "h1[role=\\"textbox\\"]"
-  
-  Selector Priority (all must be EXACT copies from the list):
-  1. Elements with data-testid attributes (most stable)
-  2. Elements with aria-label attributes (semantic)
-  3. Elements with placeholder attributes (for inputs)
-  4. Elements with :has-text() (for buttons/links)
-  5. Contenteditable elements with [contenteditable="true"]
-  6. Other provided selectors
-  
-  - For contenteditable title fields, look for selectors like h1[contenteditable="true"]
-  - For text areas, look for selectors with aria-label like div[aria-label="Start typing to edit text"]
+${mode === 'accessibility' ? ACCESSIBILITY_SELECTOR_RULES : DOM_SELECTOR_RULES}
   - When multiple similar elements exist, choose the one most relevant to your task
   - Take incremental steps toward the goal
-  - Set completed=true only when the defined end state is reached`;
+  - Set completed=true only when the defined end state is reached${mode === 'both' ? BOTH_SELECTOR_NOTE : ''}${marksSection}`;
   }
 
   private buildUserPrompt(
     userTask: string,
     state: PageState,
-    historyContext: string
+    historyContext: string,
+    endState: string
   ): string {
-    const elementsJson = JSON.stringify(
-      state.interactiveElements.slice(0, 100),
-      null,
-      2
-    );
+    const marked = !!state.markedScreenshotBase64;
+    const mode = this.observationMode(state);
+    const sections: string[] = [];
+
+    if (mode !== 'accessibility') {
+      // The agent ranks elements per step; rank here too so other callers still get a bounded list
+      const ranking = state.ranking ?? rankElements(state.interactiveElements, { task: userTask, endState });
+      const elementList = serializeElements(state.interactiveElements, ranking);
+      const omitted = state.interactiveElements.length - ranking.selected.length;
+      sections.push(`INTERACTIVE ELEMENTS (most relevant first${omitted > 0 ? `, ${omitted} less relevant omitted` : ''}):\n${elementList}`);
+    }
+
+    if (mode !== 'dom' && state.accessibilityTree) {
+      const tree = serializeAccessibilityTree(
+        state.accessibilityTree,
+        state.accessibilityTokenBudget ?? DEFAULT_ELEMENT_TOKEN_BUDGET
+      );
+      const omitted = tree.total - tree.shown;
+      sections.push(`ACCESSIBILITY TREE (page order${omitted > 0 ? `, last ${omitted} nodes omitted` : ''}):\n${tree.text}`);
+    }
 
     return `TASK: ${userTask}
 
 CURRENT PAGE:
 - URL: ${state.url}
 - Title: ${state.title}
-
-INTERACTIVE ELEMENTS:
-${elementsJson}
+${this.formatTabs(state)}${this.formatUploadFiles(state)}${this.formatSecrets(state)}
+${sections.join('\n\n')}
 
 ${historyContext}
 
-Determine the next action to progress toward completing the task. Use the screenshot for visual context.`;
+Determine the next action to progress toward completing the task. ${marked ? 'Use the numbered marks on the screenshot to pick the element.' : 'Use the screenshot for visual context.'}`;
+  }
+
+  // Only worth the tokens once a second tab exists
+  private formatTabs(state: PageState): string {
+    if (!state.tabs || state.tabs.length < 2) {
+      return '';
+    }
+
+    const tabs = state.tabs.map(tab => {
+      const opener = tab.openerId !== undefined ? ` (opened from tab ${tab.openerId})` : '';
+      return `- [${tab.id}]${tab.active ? ' (active)' : ''} ${tab.title || '(untitled)'} - ${tab.url}${opener}`;
+    });
+    return `\nOPEN TABS:\n${tabs.join('\n')}\n`;
+  }
+
+  private formatUploadFiles(state: PageState): string {
+    if (!state.uploadFiles || state.uploadFiles.length === 0) {
+      return '';
+    }
+    return `\nUPLOADABLE FILES:\n${state.uploadFiles.map(file => `- ${file}`).join('\n')}\n`;
+  }
+
+  // Names only; the values are filled in by the browser when the type action runs
+  private formatSecrets(state: PageState): string {
+    if (!state.secretNames || state.secretNames.length === 0) {
+      return '';
+    }
+    return `\nSECRETS (type {{secret:name}} to enter one, e.g. a password; the real value is filled in for you):\n${state.secretNames.map(name => `- ${name}`).join('\n')}\n`;
   }
 
   private formatHistory(history: WorkflowStep[]): string {
@@ -200,15 +400,32 @@ Determine the next action to progress toward completing the task. Use the screen
     }
 
     const steps = history
-      .map(
-        (step) =>
-          `Step ${step.stepNumber}: ${step.action.type} ${
-            step.action.selector || step.action.url || ''
-          } - ${step.reasoning}`
-      )
+      .map((step) => {
+        const { action } = step;
+        const details = [
+          action.selector || action.url || '',
+          action.text ? `text="${action.text}"` : '',
+          action.value ? `value="${action.value}"` : '',
+          action.key ? `key=${action.key}` : '',
+          action.direction ? `${action.direction} ${action.amount ?? ''}`.trim() : '',
+          action.tab !== undefined ? `tab=${action.tab}` : '',
+          action.file ? `file="${action.file}"` : '',
+        ].filter(Boolean).join(' ');
+
+        const result = step.verification ? `\n  Result: ${step.verification.observation}` : '';
+        return `Step ${step.stepNumber}: ${action.type} ${details} - ${step.reasoning}${result}`;
+      })
       .join('\n');
 
-    return `PREVIOUS ACTIONS:\n${steps}`;
+    const last = history[history.length - 1];
+    const lastResult = last.verification
+      ? `\n\nLAST ACTION RESULT: ${last.verification.observation}`
+      : '';
+
+    return `PREVIOUS ACTIONS:\n${steps}${lastResult}`;
   }
 }
 
+function emptyUsage(): LLMUsage {
+  return { llmCalls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+}
@@ -0,0 +1,49 @@
+import { LLMProvider } from './llm-provider';
+import { validateDecision } from './decision-validator';
+import { LLMDecision, PageState, ScriptedFixture, WorkflowStep } from './types';
+
+// Replays decisions from a JSON fixture - no network, no API key
+export class ScriptedLLMService implements LLMProvider {
+  private fixture: ScriptedFixture;
+
+  constructor(fixture: ScriptedFixture) {
+    if (!fixture.initialUrl || !fixture.endState || !Array.isArray(fixture.decisions)) {
+      throw new Error('Scripted fixture requires initialUrl, endState and a decisions array');
+    }
+    this.fixture = fixture;
+  }
+
+  getModel(): string {
+    return 'scripted';
+  }
+
+  async determineInitialUrl(_userTask: string): Promise<string> {
+    return this.fixture.initialUrl;
+  }
+
+  async determineEndState(_userTask: string): Promise<string> {
+    return this.fixture.endState;
+  }
+
+  async determineNextAction(
+    _userTask: string,
+    currentState: PageState,
+    history: WorkflowStep[],
+    _endState: string
+  ): Promise<LLMDecision> {
+    // Every decision becomes one step after the initial page load, so a resumed run picks up after its restored steps
+    const index = Math.max(history.length - 1, 0);
+    const decision = this.fixture.decisions[index];
+    if (!decision) {
+      throw new Error(`Scripted fixture ran out of decisions after ${index} steps`);
+    }
+
+    // A fixture can't be re-asked, so an invalid decision is a broken fixture
+    const problems = validateDecision(decision, currentState);
+    if (problems.length > 0) {
+      throw new Error(`Scripted decision ${index} is invalid: ${problems.join('; ')}`);
+    }
+
+    return decision;
+  }
+}
@@ -0,0 +1,121 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { promises as fs } from 'fs';
+
+const PLACEHOLDER = /\{\{secret:([A-Za-z0-9_.-]+)\}\}/g;
+const NAME = /^[A-Za-z0-9_.-]+$/;
+const ENV_PREFIX = 'SECRET_';
+export const PASSPHRASE_ENV = 'SECRETS_PASSPHRASE';
+
+interface EncryptedSecretsFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+// Named credentials the LLM refers to as {{secret:name}}; real values only exist in memory and in the browser
+export class SecretVault {
+  private values: Map<string, string>;
+
+  // File entries win over environment variables of the same name
+  constructor(fileSecrets: Record<string, string> = {}, env: NodeJS.ProcessEnv = process.env) {
+    this.values = new Map();
+    for (const [key, value] of Object.entries(env)) {
+      if (key.startsWith(ENV_PREFIX) && key.length > ENV_PREFIX.length && value) {
+        this.values.set(key.slice(ENV_PREFIX.length).toLowerCase(), value);
+      }
+    }
+    for (const [name, value] of Object.entries(fileSecrets)) {
+      if (value) this.values.set(name, value);
+    }
+  }
+
+  // Environment secrets, plus the encrypted file when one is given (decrypted with SECRETS_PASSPHRASE)
+  static async load(secretsFile?: string, env: NodeJS.ProcessEnv = process.env): Promise<SecretVault> {
+    if (!secretsFile) {
+      return new SecretVault({}, env);
+    }
+    return new SecretVault(await readSecretsFile(secretsFile, requirePassphrase(env)), env);
+  }
+
+  names(): string[] {
+    return [...this.values.keys()].sort();
+  }
+
+  has(name: string): boolean {
+    return this.values.has(name);
+  }
+
+  // Swaps every {{secret:name}} for its value; only call this right before the text reaches the page
+  resolve(text: string): string {
+    return text.replace(PLACEHOLDER, (_match, name: string) => {
+      const value = this.values.get(name);
+      if (value === undefined) {
+        throw new Error(`Unknown secret: ${name}`);
+      }
+      return value;
+    });
+  }
+
+  // Replaces any secret value found in text with its placeholder, longest values first
+  redact(text: string): string {
+    let result = text;
+    const entries = [...this.values.entries()].sort((a, b) => b[1].length - a[1].length);
+    for (const [name, value] of entries) {
+      result = result.split(value).join(`{{secret:${name}}}`);
+    }
+    return result;
+  }
+}
+
+export function isValidSecretName(name: string): boolean {
+  return NAME.test(name);
+}
+
+export function requirePassphrase(env: NodeJS.ProcessEnv = process.env): string {
+  const passphrase = env[PASSPHRASE_ENV];
+  if (!passphrase) {
+    throw new Error(`${PASSPHRASE_ENV} must be set to read or write the secrets file`);
+  }
+  return passphrase;
+}
+
+export async function readSecretsFile(file: string, passphrase: string): Promise<Record<string, string>> {
+  const encrypted = JSON.parse(await fs.readFile(file, 'utf-8')) as EncryptedSecretsFile;
+  if (encrypted.version !== 1) {
+    throw new Error(`Unsupported secrets file version in ${file}: ${encrypted.version}`);
+  }
+
+  const key = scryptSync(passphrase, Buffer.from(encrypted.salt, 'base64'), 32);
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(encrypted.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+
+  try {
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(encrypted.data, 'base64')),
+      decipher.final(),
+    ]);
+    return JSON.parse(plaintext.toString('utf-8'));
+  } catch {
+    throw new Error(`Could not decrypt ${file}; check ${PASSPHRASE_ENV}`);
+  }
+}
+
+// A fresh salt and IV on every write, so identical contents never produce identical files
+export async function writeSecretsFile(file: string, passphrase: string, secrets: Record<string, string>): Promise<void> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = scryptSync(passphrase, salt, 32);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf-8'), cipher.final()]);
+
+  const encrypted: EncryptedSecretsFile = {
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+  await fs.writeFile(file, JSON.stringify(encrypted, null, 2), { encoding: 'utf-8', mode: 0o600 });
+}
@@ -0,0 +1,197 @@
+import * as readline from 'readline/promises';
+import { ACTION_TYPES, validateDecision } from './decision-validator';
+import { formatFramePath } from './element-ranker';
+import { ActionType, LLMDecision, PageState, UIElement } from './types';
+
+export interface ReviewOutcome {
+  decision: LLMDecision;
+  humanOverride: boolean;
+  originalDecision?: LLMDecision;
+}
+
+const MENU = `  [a] accept   [s] edit selector   [t] edit text/value/key   [e] pick element
+  [o] override action   [c] mark complete   [q] abort run`;
+
+// Lets an operator accept, correct or replace each LLM decision before it runs
+export class StepReviewer {
+  private rl: readline.Interface;
+
+  constructor() {
+    this.rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  }
+
+  async review(decision: LLMDecision, pageState: PageState): Promise<ReviewOutcome> {
+    const original = { ...decision };
+    let current = { ...decision };
+
+    while (true) {
+      this.printDecision(current);
+      const choice = (await this.rl.question('Choice [a]: ')).trim().toLowerCase() || 'a';
+
+      switch (choice) {
+        case 'a': {
+          const problems = validateDecision(current, pageState);
+          if (problems.length > 0) {
+            console.log(`Cannot accept:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+            break;
+          }
+          const humanOverride = JSON.stringify(current) !== JSON.stringify(original);
+          return {
+            decision: current,
+            humanOverride,
+            originalDecision: humanOverride ? original : undefined,
+          };
+        }
+
+        case 's': {
+          // A typed selector is taken as the top document's; pick the element instead to target an iframe
+          const selector = (await this.rl.question('Selector: ')).trim();
+          if (selector) current = { ...current, selector, frame: undefined, element: undefined };
+          break;
+        }
+
+        case 't':
+          await this.editInput(current);
+          break;
+
+        case 'e': {
+          const element = await this.pickElement(pageState);
+          if (element) {
+            current = {
+              ...current,
+              selector: element.selector,
+              frame: element.framePath && formatFramePath(element.framePath),
+              element: undefined,
+            };
+          }
+          break;
+        }
+
+        case 'o':
+          current = await this.promptAction(current, pageState);
+          break;
+
+        case 'c':
+          current = {
+            action: 'complete',
+            reasoning: 'Marked complete by operator',
+            completed: true,
+          };
+          break;
+
+        case 'q':
+          throw new Error('Run aborted by operator');
+
+        default:
+          console.log(`Unknown choice: ${choice}`);
+      }
+    }
+  }
+
+  close(): void {
+    this.rl.close();
+  }
+
+  private printDecision(decision: LLMDecision): void {
+    console.log(`\nProposed action: ${decision.action}`);
+    if (decision.selector) console.log(`Selector: ${decision.selector}`);
+    if (decision.frame) console.log(`Frame: ${decision.frame}`);
+    if (decision.text) console.log(`Text: ${decision.text}`);
+    if (decision.value) console.log(`Option: ${decision.value}`);
+    if (decision.key) console.log(`Key: ${decision.key}`);
+    if (decision.url) console.log(`URL: ${decision.url}`);
+    if (decision.tab !== undefined) console.log(`Tab: ${decision.tab}`);
+    if (decision.file) console.log(`File: ${decision.file}`);
+    console.log(`Reasoning: ${decision.reasoning}`);
+    console.log(`Completed: ${decision.completed}`);
+    console.log(MENU);
+  }
+
+  private async editInput(decision: LLMDecision): Promise<void> {
+    switch (decision.action) {
+      case 'select':
+        decision.value = (await this.rl.question(`Option [${decision.value ?? ''}]: `)) || decision.value;
+        break;
+      case 'keypress':
+        decision.key = (await this.rl.question(`Key [${decision.key ?? ''}]: `)) || decision.key;
+        break;
+      case 'navigate':
+        decision.url = (await this.rl.question(`URL [${decision.url ?? ''}]: `)) || decision.url;
+        break;
+      case 'type':
+        decision.text = (await this.rl.question(`Text [${decision.text ?? ''}]: `)) || decision.text;
+        break;
+      case 'upload':
+        decision.file = (await this.rl.question(`File [${decision.file ?? ''}]: `)) || decision.file;
+        break;
+      case 'switch_tab':
+      case 'close_tab': {
+        const tab = (await this.rl.question(`Tab id [${decision.tab ?? ''}]: `)).trim();
+        if (tab) decision.tab = Number(tab);
+        break;
+      }
+      default:
+        console.log(`${decision.action} takes no text`);
+    }
+  }
+
+  private async pickElement(pageState: PageState): Promise<UIElement | undefined> {
+    const filter = (await this.rl.question('Filter by text/selector (blank for all): ')).trim().toLowerCase();
+
+    const matches = pageState.interactiveElements
+      .map((element, index) => ({ element, index }))
+      .filter(({ element }) =>
+        !filter ||
+        element.selector.toLowerCase().includes(filter) ||
+        element.text.toLowerCase().includes(filter) ||
+        (element.ariaLabel ?? '').toLowerCase().includes(filter)
+      )
+      .slice(0, 50);
+
+    if (matches.length === 0) {
+      console.log('No matching elements');
+      return undefined;
+    }
+
+    for (const { element, index } of matches) {
+      const label = element.ariaLabel || element.text || element.placeholder || '';
+      const frame = element.framePath ? ` (frame ${formatFramePath(element.framePath)})` : '';
+      console.log(`  ${index}: [${element.role}] ${label.slice(0, 50)} -> ${element.selector}${frame}`);
+    }
+
+    const answer = (await this.rl.question('Element number: ')).trim();
+    const element = pageState.interactiveElements[Number(answer)];
+    if (answer === '' || !element) {
+      console.log('No element chosen');
+      return undefined;
+    }
+    return element;
+  }
+
+  // Operator takes over and spells out the action from scratch
+  private async promptAction(current: LLMDecision, pageState: PageState): Promise<LLMDecision> {
+    const action = (await this.rl.question(`Action (${ACTION_TYPES.join('/')}): `)).trim() as ActionType;
+    if (!ACTION_TYPES.includes(action)) {
+      console.log(`Unknown action: ${action}`);
+      return current;
+    }
+
+    const decision: LLMDecision = {
+      action,
+      reasoning: (await this.rl.question('Reasoning: ')).trim() || 'Chosen by operator',
+      completed: action === 'complete',
+    };
+
+    if (['click', 'type', 'select', 'hover', 'upload'].includes(action)) {
+      const selector = (await this.rl.question('Selector (blank to pick from list): ')).trim();
+      const element = selector ? undefined : await this.pickElement(pageState);
+      decision.selector = selector || element?.selector;
+      decision.frame = element?.framePath && formatFramePath(element.framePath);
+    }
+    if (['type', 'select', 'keypress', 'navigate', 'upload', 'switch_tab', 'close_tab'].includes(action)) {
+      await this.editInput(decision);
+    }
+
+    return decision;
+  }
+}
@@ -0,0 +1,138 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AccessibilityNode, RecordedStep, UIElement, UIStateRecord, WorkflowSummary } from './types';
+
+export function sanitizeTaskName(task: string): string {
+  return task
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .slice(0, 50);
+}
+
+// Read-only view over a captured dataset/<task> folder and its elements/<task> counterpart
+export class TaskDataset {
+  private taskPath: string;
+  private elementsPath: string;
+
+  constructor(taskPath: string, elementsRoot: string = 'elements') {
+    this.taskPath = taskPath;
+    this.elementsPath = `${elementsRoot}/${path.basename(taskPath)}`;
+  }
+
+  // Accepts either a task folder or a file inside it (e.g. workflow-summary.json)
+  static async open(source: string, elementsRoot?: string): Promise<TaskDataset> {
+    const stat = await fs.stat(source);
+    const taskPath = stat.isDirectory() ? source : path.dirname(source);
+    return new TaskDataset(taskPath.replace(/\/+$/, ''), elementsRoot);
+  }
+
+  getTaskPath(): string {
+    return this.taskPath;
+  }
+
+  getElementsPath(): string {
+    return this.elementsPath;
+  }
+
+  // Recorded paths are relative to wherever the capture ran, so fall back to the file name inside the task folder
+  async locateFile(recordedPath: string): Promise<string | undefined> {
+    const candidates = [recordedPath, `${this.taskPath}/${path.basename(recordedPath)}`];
+    for (const candidate of candidates) {
+      try {
+        await fs.access(candidate);
+        return candidate;
+      } catch {
+        // try the next location
+      }
+    }
+    return undefined;
+  }
+
+  async loadSummary(): Promise<WorkflowSummary | null> {
+    try {
+      return JSON.parse(await fs.readFile(`${this.taskPath}/workflow-summary.json`, 'utf-8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async loadUiStates(): Promise<UIStateRecord[]> {
+    const files = await fs.readdir(this.taskPath);
+    const uiStateFiles = files.filter(f => /^ui-state-\d+\.json$/.test(f));
+
+    const states = await Promise.all(
+      uiStateFiles.map(async (file) =>
+        JSON.parse(await fs.readFile(`${this.taskPath}/${file}`, 'utf-8')) as UIStateRecord
+      )
+    );
+
+    return states.sort((a, b) => a.stepNumber - b.stepNumber);
+  }
+
+  // 'before' is the page the action was decided on; older captures only have the post-action list
+  async loadElements(stepNumber: number, phase: 'before' | 'after' = 'after'): Promise<UIElement[] | null> {
+    const suffix = phase === 'before' ? '-before' : '';
+    try {
+      const data = await fs.readFile(`${this.elementsPath}/elements-${stepNumber}${suffix}.json`, 'utf-8');
+      return JSON.parse(data) as UIElement[];
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  // Only captured when the run used the accessibility observation mode
+  async loadAccessibilityTree(stepNumber: number, phase: 'before' | 'after' = 'after'): Promise<AccessibilityNode | null> {
+    const suffix = phase === 'before' ? '-before' : '';
+    try {
+      const data = await fs.readFile(`${this.elementsPath}/accessibility-${stepNumber}${suffix}.json`, 'utf-8');
+      return JSON.parse(data) as AccessibilityNode;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  // ui-state-N.json carries the full action (including typed text), so prefer it over the summary
+  async loadRecordedSteps(): Promise<RecordedStep[]> {
+    const uiStates = await this.loadUiStates();
+    if (uiStates.length > 0) {
+      return uiStates.map((state) => ({
+        stepNumber: state.stepNumber,
+        action: state.action,
+        reasoning: state.reasoning,
+      }));
+    }
+
+    return this.loadSummarySteps();
+  }
+
+  async loadSummarySteps(): Promise<RecordedStep[]> {
+    const summary = await this.loadSummary();
+    if (!summary) {
+      return [];
+    }
+
+    return (summary.steps ?? []).map((step) => ({
+      stepNumber: step.stepNumber,
+      action: {
+        type: step.action,
+        selector: step.selector,
+        coordinates: step.coordinates,
+        text: step.text,
+        url: step.url,
+        value: step.value,
+        key: step.key,
+        direction: step.direction,
+        amount: step.amount,
+        duration: step.duration,
+        framePath: step.framePath,
+        tab: step.tab,
+        file: step.file,
+      },
+      reasoning: step.reasoning,
+    }));
+  }
+}
@@ -0,0 +1,209 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TaskDataset } from './task-dataset';
+import { LLMProvider } from './llm-provider';
+import { generateInstruction } from './action-description';
+import { UIElement, UIStateRecord } from './types';
+
+export type TutorialFormat = 'markdown' | 'html';
+
+export interface TutorialStep {
+  number: number;
+  instruction: string;
+  screenshotPath?: string; // What the page looks like when the reader performs this step
+  url: string;
+}
+
+export interface Tutorial {
+  title: string;
+  startUrl?: string;
+  steps: TutorialStep[];
+  resultScreenshotPath?: string;
+}
+
+// Turns a captured dataset/<task> folder into a step-by-step guide for people rather than for training
+export class TutorialExporter {
+  private dataset: TaskDataset;
+  private llm?: LLMProvider;
+
+  constructor(dataset: TaskDataset, options: { llm?: LLMProvider } = {}) {
+    this.dataset = dataset;
+    this.llm = options.llm;
+  }
+
+  async export(format: TutorialFormat, outPath?: string): Promise<string> {
+    const tutorial = await this.build();
+    const target = outPath ?? `${this.dataset.getTaskPath()}/tutorial.${format === 'markdown' ? 'md' : 'html'}`;
+
+    const content = format === 'markdown'
+      ? this.renderMarkdown(tutorial, path.dirname(target))
+      : await this.renderHtml(tutorial);
+
+    await fs.writeFile(target, content, 'utf-8');
+    console.log(`Exported ${tutorial.steps.length}-step tutorial to ${target}`);
+    return target;
+  }
+
+  async build(): Promise<Tutorial> {
+    const summary = await this.dataset.loadSummary();
+    const uiStates = await this.dataset.loadUiStates();
+    if (uiStates.length === 0) {
+      throw new Error(`No ui-state files found in ${this.dataset.getTaskPath()}`);
+    }
+
+    const steps: TutorialStep[] = [];
+    let previous: UIStateRecord | undefined;
+
+    for (const state of uiStates) {
+      // Step 0 is the page load; it becomes the "open this URL" line rather than a numbered step
+      if (state.stepNumber === 0) {
+        previous = state;
+        continue;
+      }
+
+      // Prefer the annotated pre-action image, which already marks where to click
+      const annotated = state.annotatedScreenshotPath ? await this.findScreenshot(state.annotatedScreenshotPath) : undefined;
+      const instruction = await this.instructionFor(state, annotated !== undefined);
+      if (instruction) {
+        steps.push({
+          number: steps.length + 1,
+          instruction,
+          screenshotPath: annotated ?? await this.findBeforeScreenshot(state, previous),
+          url: state.before?.url ?? previous?.pageState.url ?? state.pageState.url,
+        });
+      }
+      previous = state;
+    }
+
+    if (this.llm?.rewriteInstructions && steps.length > 0) {
+      await this.rewrite(summary?.task ?? path.basename(this.dataset.getTaskPath()), steps);
+    }
+
+    return {
+      title: summary?.task ?? path.basename(this.dataset.getTaskPath()),
+      startUrl: uiStates[0].stepNumber === 0 ? uiStates[0].pageState.url : undefined,
+      steps,
+      resultScreenshotPath: previous ? await this.findScreenshot(previous.screenshotPath) : undefined,
+    };
+  }
+
+  renderMarkdown(tutorial: Tutorial, outDir: string): string {
+    const lines = [`# ${tutorial.title}`, ''];
+    if (tutorial.startUrl) {
+      lines.push(`Start at [${tutorial.startUrl}](${tutorial.startUrl}).`, '');
+    }
+
+    for (const step of tutorial.steps) {
+      lines.push(`## Step ${step.number}`, '', step.instruction, '');
+      if (step.screenshotPath) {
+        lines.push(`![Step ${step.number}](${this.relativePath(outDir, step.screenshotPath)})`, '');
+      }
+    }
+
+    if (tutorial.resultScreenshotPath) {
+      lines.push('## Result', '', `![Result](${this.relativePath(outDir, tutorial.resultScreenshotPath)})`, '');
+    }
+
+    return lines.join('\n');
+  }
+
+  // Screenshots are inlined as data URIs so the page can be published as a single file
+  async renderHtml(tutorial: Tutorial): Promise<string> {
+    const sections: string[] = [];
+
+    for (const step of tutorial.steps) {
+      const image = step.screenshotPath
+        ? `\n    <img src="${await this.dataUri(step.screenshotPath)}" alt="Step ${step.number}">`
+        : '';
+      sections.push(`  <section>
+    <h2>Step ${step.number}</h2>
+    <p>${escapeHtml(step.instruction)}</p>${image}
+  </section>`);
+    }
+
+    if (tutorial.resultScreenshotPath) {
+      sections.push(`  <section>
+    <h2>Result</h2>
+    <img src="${await this.dataUri(tutorial.resultScreenshotPath)}" alt="Result">
+  </section>`);
+    }
+
+    const start = tutorial.startUrl
+      ? `\n  <p>Start at <a href="${escapeHtml(tutorial.startUrl)}">${escapeHtml(tutorial.startUrl)}</a>.</p>`
+      : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(tutorial.title)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #222; }
+    section { margin-bottom: 2.5rem; }
+    img { max-width: 100%; border: 1px solid #ddd; border-radius: 4px; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(tutorial.title)}</h1>${start}
+${sections.join('\n')}
+</body>
+</html>
+`;
+  }
+
+  // The acted-on element lives in the page as it was before the action; older captures only have the previous step's elements
+  private async instructionFor(state: UIStateRecord, highlighted: boolean): Promise<string> {
+    const { action } = state;
+    let element: UIElement | undefined;
+    if (action.selector) {
+      const before = await this.dataset.loadElements(state.stepNumber, 'before')
+        ?? await this.dataset.loadElements(state.stepNumber - 1);
+      const after = await this.dataset.loadElements(state.stepNumber);
+      element = before?.find(el => el.selector === action.selector)
+        ?? after?.find(el => el.selector === action.selector);
+    }
+    return generateInstruction(action, element, { highlighted });
+  }
+
+  private async rewrite(task: string, steps: TutorialStep[]): Promise<void> {
+    try {
+      const rewritten = await this.llm!.rewriteInstructions!(task, steps.map(step => step.instruction));
+      if (rewritten.length !== steps.length || rewritten.some(text => typeof text !== 'string' || !text.trim())) {
+        console.warn(`LLM rewrite returned ${rewritten.length} steps for ${steps.length}; keeping generated instructions`);
+        return;
+      }
+      steps.forEach((step, i) => { step.instruction = rewritten[i].trim(); });
+    } catch (error) {
+      console.warn(`LLM rewrite failed, keeping generated instructions:`, error);
+    }
+  }
+
+  private async findBeforeScreenshot(state: UIStateRecord, previous?: UIStateRecord): Promise<string | undefined> {
+    if (state.before) {
+      const before = await this.findScreenshot(state.before.screenshotPath);
+      if (before) return before;
+    }
+    return previous ? this.findScreenshot(previous.screenshotPath) : undefined;
+  }
+
+  private async findScreenshot(recordedPath: string): Promise<string | undefined> {
+    return this.dataset.locateFile(recordedPath);
+  }
+
+  private relativePath(outDir: string, file: string): string {
+    return path.relative(outDir, file).split(path.sep).join('/');
+  }
+
+  private async dataUri(file: string): Promise<string> {
+    const data = await fs.readFile(file);
+    return `data:image/png;base64,${data.toString('base64')}`;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -4,14 +4,125 @@ export interface WorkflowStep {
   action: ActionExecuted;
   reasoning: string;
   timestamp: Date;
+  verification?: StepVerification;
+  humanOverride?: boolean; // Operator edited or replaced the LLM's decision
+  tabId?: number; // Tab the action was taken in
+  metrics?: LLMMetrics; // What deciding on this step cost
 }
 
+// Token counts as reported by the API, summed over every request in a span of time
+export interface LLMUsage {
+  llmCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// Token counts are left out when the provider doesn't report them
+export interface LLMMetrics extends Partial<LLMUsage> {
+  latencyMs: number; // Time spent waiting for the LLM, including rate-limit retries and corrections
+}
+
+// 'running' is only ever seen in checkpoints; a run that crashed without writing its outcome stays 'running'
+export type WorkflowStatus = 'running' | 'completed' | 'max_steps' | 'error';
+
+export interface WorkflowError {
+  message: string;
+  stack?: string;
+  stepNumber: number; // Step that was in progress
+}
+
+export interface SummaryStep {
+  stepNumber: number;
+  action: ActionType;
+  selector?: string;
+  coordinates?: { x: number; y: number };
+  text?: string;
+  url?: string;
+  value?: string;
+  key?: string;
+  direction?: 'up' | 'down';
+  amount?: number;
+  duration?: number;
+  framePath?: string[];
+  tab?: number;
+  file?: string;
+  tabId?: number;
+  reasoning: string;
+  noOp?: boolean;
+  recovery?: 'escape' | 'back';
+  humanOverride?: boolean;
+  screenshot: string;
+  metrics?: LLMMetrics;
+}
+
+// workflow-summary.json. Version 1 summaries have no schemaVersion and only task, completed, totalSteps, times and steps
+export interface WorkflowSummary {
+  schemaVersion?: number;
+  task: string;
+  status?: WorkflowStatus;
+  completed: boolean; // Same as status === 'completed'
+  error?: WorkflowError;
+  endState?: string;
+  initialUrl?: string;
+  model?: string;
+  config?: Partial<WorkflowConfig>;
+  usage?: LLMMetrics; // Whole run, including the start URL and end state requests
+  totalSteps: number;
+  startTime?: Date | string;
+  endTime?: Date | string;
+  steps: SummaryStep[];
+}
+
+export interface StepVerification {
+  urlChanged: boolean;
+  titleChanged: boolean;
+  screenshotChanged: boolean;
+  elementsAdded: number;
+  elementsRemoved: number;
+  noOp: boolean; // Nothing observable changed
+  repeatCount: number; // Times this same action ran back to back without effect, including this step (0 if it had one)
+  recovery?: 'escape' | 'back';
+  observation: string; // Plain-language summary fed into the next prompt
+}
+
+export type ActionType =
+  | 'click'
+  | 'type'
+  | 'select'
+  | 'hover'
+  | 'scroll'
+  | 'keypress'
+  | 'wait'
+  | 'back'
+  | 'navigate'
+  | 'upload'
+  | 'switch_tab'
+  | 'close_tab'
+  | 'complete';
+
 export interface ActionExecuted {
-  type: 'click' | 'type' | 'navigate' | 'complete';
+  type: ActionType;
   selector?: string;
   coordinates?: { x: number; y: number };
   text?: string;
   url?: string;
+  value?: string; // Option chosen for select
+  key?: string; // Key or shortcut for keypress, e.g. "Enter" or "Control+K"
+  direction?: 'up' | 'down'; // scroll
+  amount?: number; // Pixels to scroll
+  duration?: number; // Milliseconds to wait
+  resolvedBy?: ElementLocator; // Locator that actually found the element
+  elementIndex?: number; // Set-of-marks number the model picked, i.e. the index into interactiveElements
+  framePath?: string[]; // Iframes to enter before resolving the selector
+  tab?: number; // Tab id for switch_tab and close_tab
+  file?: string; // Fixture file name for upload
+}
+
+export interface ElementLocator {
+  // 'selector' is the element's primary selector; the rest are fallbacks
+  strategy: 'selector' | 'testid' | 'role' | 'text' | 'css' | 'xpath' | 'bbox';
+  value: string; // For 'bbox': "x,y,width,height"
 }
 
 export interface UIElement {
@@ -34,6 +145,9 @@ export interface UIElement {
   region?: string;
   parentSelector?: string;
   depth?: number;
+  locators?: ElementLocator[]; // Ordered fallbacks for when the selector stops resolving
+  framePath?: string[]; // Selectors of the iframes containing the element, outermost first
+  shadowPath?: string[]; // Selectors of the open shadow hosts containing it, outermost first
 }
 
 export interface PageState {
@@ -41,12 +155,95 @@ export interface PageState {
   title: string;
   interactiveElements: UIElement[];
   screenshotBase64: string;
+  markedScreenshotBase64?: string; // Screenshot with each element's index drawn on it (set-of-marks mode)
+  ranking?: ElementRanking; // Which elements go into the prompt, most relevant first
+  tabs?: TabInfo[];
+  activeTabId?: number;
+  uploadFiles?: string[]; // Fixture files the upload action may use
+  secretNames?: string[]; // Secrets a type action may reference as {{secret:name}}; never the values
+  dialogs?: DialogEvent[]; // Dialogs the last action raised, already answered per the dialog policy
+  downloads?: DownloadRecord[]; // Files the last action downloaded
+  accessibilityTree?: AccessibilityNode; // Captured unless the observation mode is 'dom'
+  observationMode?: ObservationMode; // What the prompt describes the page with; defaults to 'dom'
+  accessibilityTokenBudget?: number; // Approximate prompt tokens to spend on the accessibility tree
+}
+
+// 'dom' prompts with the scraped element list, 'accessibility' with the accessibility tree, 'both' with both
+export type ObservationMode = 'dom' | 'accessibility' | 'both';
+
+export interface AccessibilityNode {
+  role: string; // Computed ARIA role
+  name: string; // Accessible name
+  value?: string;
+  description?: string;
+  checked?: boolean | 'mixed';
+  pressed?: boolean | 'mixed';
+  expanded?: boolean;
+  selected?: boolean;
+  disabled?: boolean;
+  focused?: boolean;
+  required?: boolean;
+  level?: number; // Heading level
+  selector?: string; // Playwright role selector, e.g. role=button[name="Save"s]; only on nodes that can be acted on
+  children?: AccessibilityNode[];
+}
+
+export type DialogPolicy = 'accept' | 'dismiss';
+
+export interface DialogEvent {
+  type: string; // alert, confirm, prompt or beforeunload
+  message: string;
+  defaultValue?: string; // Prefilled prompt() text, which is what an accepted prompt answers with
+  response: 'accepted' | 'dismissed';
+  tabId?: number;
+  timestamp: string;
+}
+
+export interface DownloadRecord {
+  url: string;
+  suggestedFilename: string;
+  path?: string; // Where the file was saved, inside the task folder
+  size?: number; // Bytes
+  failure?: string; // Why the download did not complete
+  tabId?: number;
+  timestamp: string;
+}
+
+export interface TabInfo {
+  id: number; // Stable for the life of the tab, in the order tabs were opened
+  url: string;
+  title: string;
+  active: boolean;
+  openerId?: number; // Tab whose action opened this one (popups, target=_blank links)
+}
+
+export interface RankedElement {
+  index: number; // Position in interactiveElements
+  score: number;
+}
+
+export interface ElementRanking {
+  selected: RankedElement[];
+  total: number;
+  duplicates: number; // Near-identical elements left out
+  estimatedTokens: number;
+  tokenBudget: number;
 }
 
 export interface LLMDecision {
-  action: 'click' | 'type' | 'navigate' | 'complete';
+  action: ActionType;
   selector?: string;
+  element?: number; // Set-of-marks index; the agent maps it to the selector and bounding box
+  frame?: string; // frame= value from the element list; left out for the top document
+  tab?: number; // Tab id for switch_tab and close_tab
+  file?: string; // Fixture file name for upload
   text?: string;
+  url?: string;
+  value?: string;
+  key?: string;
+  direction?: 'up' | 'down';
+  amount?: number;
+  duration?: number;
   reasoning: string;
   completed: boolean;
 }
@@ -58,5 +255,218 @@ export interface WorkflowConfig {
   viewportWidth: number;
   viewportHeight: number;
   userDataDir?: string; // Directory for persistent browser context (saves auth state)
+  headless: boolean;
+  keepAliveSeconds: number; // How long to keep the browser open after a successful run
+  storageStatePath?: string; // Run in a fresh context seeded from saved storage state instead of userDataDir
+  loopThreshold: number; // Repeated no-op actions before a recovery strategy kicks in
+  interactive: boolean; // Ask an operator to approve or edit every decision
+  annotateScreenshots: boolean; // Save a pre-action image with the target outlined and the click point marked
+  annotationCropPadding?: number; // Crop annotated images to the target plus this many pixels
+  setOfMarks: boolean; // Send a screenshot with numbered element boxes and accept element indexes
+  elementTokenBudget: number; // Approximate prompt tokens to spend on the interactive elements list
+  dialogPolicy: DialogPolicy; // How alert/confirm/prompt dialogs are answered
+  fixturesDir: string; // Local files the upload action can choose from
+  secretsFile?: string; // Encrypted secrets file, unlocked with SECRETS_PASSPHRASE; SECRET_* env vars are always read
+  redaction?: Partial<RedactionConfig>; // Scrub each step's artifacts as they are written
+  observationMode: ObservationMode; // How the page is described to the model
+  trace: boolean; // Save a Playwright trace with DOM snapshots as trace.zip in the task folder
+  har: boolean; // Save network traffic as network.har in the task folder
+  video: boolean; // Save a screen recording of each tab under video/ in the task folder
 }
 
+// Debug recordings for one browser session; browser-console.log is written whenever a directory is given
+export interface DebugRecordingOptions {
+  dir: string;
+  trace?: boolean;
+  har?: boolean;
+  video?: boolean;
+}
+
+export type RedactionDetector = 'email' | 'phone' | 'token';
+
+export interface RedactionConfig {
+  detectors: RedactionDetector[];
+  patterns: { name: string; pattern: string; flags?: string }[]; // Custom regexes, reported under their name
+  fieldTypes: string[]; // Input types whose value is always removed and whose box is always blurred
+  blurRadius: number; // Pixels
+}
+
+export interface RedactionFileReport {
+  file: string;
+  matches: Record<string, number>; // Detector or pattern name -> replacements
+  blurredRegions?: number;
+  fullyBlurred?: boolean; // Cropped image whose regions could not be mapped, so all of it was blurred
+  regions?: { x: number; y: number; width: number; height: number }[]; // Boxes blurred in this image so far
+  sha256?: string; // Hash of the image as written; while it matches, a later pass doesn't blur the same boxes again
+}
+
+export interface RedactionReport {
+  task: string;
+  generatedAt: string;
+  detectors: string[];
+  totals: Record<string, number>;
+  blurredRegions: number;
+  files: RedactionFileReport[];
+}
+
+export interface ScreenshotAnnotation {
+  box?: { x: number; y: number; width: number; height: number };
+  point?: { x: number; y: number };
+  label?: string; // Numbered callout, usually the step number
+}
+
+export interface WorkflowResult {
+  task: string;
+  taskPath: string;
+  completed: boolean;
+  totalSteps: number;
+  durationMs: number;
+}
+
+
+export interface RecordedStep {
+  stepNumber: number;
+  action: ActionExecuted;
+  reasoning: string;
+}
+
+export interface ReplayStepResult {
+  stepNumber: number;
+  action: ActionExecuted['type'];
+  selector?: string;
+  success: boolean;
+  usedCoordinates: boolean;
+  screenshotPath?: string;
+  error?: string;
+}
+
+export interface ReplayReport {
+  source: string;
+  outputDir: string;
+  startTime: Date;
+  endTime: Date;
+  totalSteps: number;
+  succeeded: number;
+  failed: number;
+  steps: ReplayStepResult[];
+}
+
+export interface LLMProviderConfig {
+  provider: 'openai' | 'openai-compatible' | 'scripted';
+  apiKey?: string;
+  baseUrl?: string; // Base URL for OpenAI-compatible endpoints (vLLM, Ollama, ...)
+  model?: string;
+  scriptPath?: string; // JSON fixture for the scripted provider
+  maxCorrections?: number; // Re-prompts allowed when a decision fails validation
+}
+
+export interface ScriptedFixture {
+  initialUrl: string;
+  endState: string;
+  decisions: LLMDecision[];
+}
+
+// Where one observation of the page was persisted
+export interface PageSnapshotRecord {
+  url: string;
+  title: string;
+  screenshotPath: string;
+  markedScreenshotPath?: string; // Set-of-marks image the model was shown
+  elementsPath: string;
+  rankingPath?: string; // Elements that made it into the prompt, with their scores
+  accessibilityPath?: string; // Accessibility tree, when the observation mode captured one
+  tabId?: number; // Tab that was active when this observation was taken
+}
+
+export interface UIStateRecord {
+  stepNumber: number;
+  action: ActionExecuted;
+  reasoning: string;
+  description: string;
+  pageState: { // Page after the action (same as after.url/after.title)
+    url: string;
+    title: string;
+  };
+  screenshotPath: string; // Post-action screenshot (same as after.screenshotPath)
+  before?: PageSnapshotRecord; // The page the action was decided on
+  after?: PageSnapshotRecord; // The page once the action had run
+  annotatedScreenshotPath?: string; // Pre-action image with the target highlighted
+  dialogs?: DialogEvent[]; // Dialogs the action raised and how they were answered
+  downloads?: DownloadRecord[]; // Files the action downloaded
+  timestamp: Date | string;
+  verification?: StepVerification;
+  humanOverride?: boolean;
+  originalDecision?: LLMDecision; // What the LLM proposed before the operator changed it
+  metrics?: LLMMetrics; // LLM time and tokens spent deciding on this step
+}
+
+export interface BatchTaskEntry {
+  task: string;
+  startUrl?: string;
+  maxSteps?: number;
+  tags?: string[];
+}
+
+export interface BatchTaskResult {
+  task: string;
+  tags?: string[];
+  taskPath: string;
+  status: 'completed' | 'incomplete' | 'failed' | 'skipped';
+  success: boolean;
+  totalSteps: number;
+  durationMs: number;
+  failureReason?: string;
+}
+
+export interface BatchReport {
+  manifest: string;
+  concurrency: number;
+  startTime: Date;
+  endTime: Date;
+  total: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  tasks: BatchTaskResult[];
+}
+
+export interface ValidationProblem {
+  severity: 'error' | 'warning'; // Errors make a task invalid and get it quarantined
+  stepNumber?: number;
+  message: string;
+}
+
+export interface TaskValidation {
+  taskPath: string;
+  task?: string;
+  steps: number;
+  actions: Record<string, number>; // Action type -> steps
+  completed: boolean; // The last step is a complete action
+  problems: ValidationProblem[];
+  quarantinedTo?: string;
+}
+
+export interface ValidationReport {
+  root: string;
+  elementsRoot: string;
+  generatedAt: string;
+  totalTasks: number;
+  validTasks: number;
+  totalSteps: number;
+  averageSteps: number;
+  completionRate: number; // Share of tasks that ended with complete, 0 to 1
+  actions: Record<string, number>;
+  orphanedElements: string[]; // elements/<task> folders without a dataset/<task>
+  tasks: TaskValidation[];
+}
+
+// Raw event reported by the in-page recorder script; coordinates are viewport-relative
+export interface RecordedUserEvent {
+  kind: 'click' | 'type' | 'select' | 'keypress' | 'scroll';
+  x?: number;
+  y?: number;
+  value?: string; // Typed text or chosen option label
+  key?: string;
+  deltaY?: number; // Scroll distance, positive is down
+  isPassword?: boolean;
+}
@@ -0,0 +1,30 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Files directly inside the fixtures directory; the upload action can only pick from these
+export async function listUploadFixtures(fixturesDir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(fixturesDir, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isFile() && !entry.name.startsWith('.'))
+      .map(entry => entry.name)
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+// Maps a fixture name to its path, refusing anything that would reach outside the fixtures directory
+export async function resolveUploadFixture(fixturesDir: string, file: string): Promise<string> {
+  if (!file || path.basename(file) !== file) {
+    throw new Error(`Upload file must be a file name inside ${fixturesDir}: ${JSON.stringify(file)}`);
+  }
+
+  const filePath = path.join(fixturesDir, file);
+  try {
+    await fs.access(filePath);
+  } catch {
+    throw new Error(`Upload fixture not found: ${filePath}`);
+  }
+  return filePath;
+}
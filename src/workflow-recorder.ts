@@ -0,0 +1,284 @@
+import * as readline from 'readline/promises';
+import { BrowserController } from './browser-controller';
+import { WorkflowState } from './workflow-state';
+import { sanitizeTaskName } from './task-dataset';
+import { generateActionDescription } from './action-description';
+import { DEFAULT_ELEMENT_TOKEN_BUDGET } from './element-ranker';
+import { SecretVault } from './secret-vault';
+import {
+  ActionExecuted,
+  PageState,
+  RecordedUserEvent,
+  UIElement,
+  UIStateRecord,
+  WorkflowConfig,
+  WorkflowResult,
+} from './types';
+
+const HUMAN_REASONING = 'Performed by a human demonstrator';
+
+// Records a workflow performed by hand into the same dataset layout the Agent produces
+export class WorkflowRecorder {
+  private browser: BrowserController;
+  private state: WorkflowState;
+  private config: WorkflowConfig;
+  private lastState: PageState | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private lastEventTime = 0;
+  private lastUrl = '';
+  private secrets = new SecretVault();
+
+  constructor(config: Partial<WorkflowConfig> = {}) {
+    this.config = {
+      maxSteps: config.maxSteps ?? 20,
+      screenshotDir: config.screenshotDir ?? 'dataset',
+      slowMo: config.slowMo ?? 0,
+      viewportWidth: config.viewportWidth ?? 1280,
+      viewportHeight: config.viewportHeight ?? 720,
+      userDataDir: config.userDataDir ?? 'user-data-dir',
+      headless: false, // Someone has to see the browser to use it
+      keepAliveSeconds: 0,
+      storageStatePath: config.storageStatePath,
+      loopThreshold: config.loopThreshold ?? 3,
+      interactive: false,
+      annotateScreenshots: false,
+      setOfMarks: false,
+      elementTokenBudget: DEFAULT_ELEMENT_TOKEN_BUDGET,
+      dialogPolicy: config.dialogPolicy ?? 'accept',
+      fixturesDir: config.fixturesDir ?? 'fixtures',
+      secretsFile: config.secretsFile,
+      redaction: config.redaction,
+      observationMode: config.observationMode ?? 'dom',
+      trace: config.trace ?? false,
+      har: config.har ?? false,
+      video: config.video ?? false,
+    };
+
+    this.browser = new BrowserController();
+    this.state = new WorkflowState('', this.config.screenshotDir, 'elements');
+  }
+
+  async record(userTask: string, startUrl: string): Promise<WorkflowResult> {
+    const startTime = Date.now();
+    console.log(`\nRecording Workflow...`);
+    console.log(`Task: ${userTask}\n`);
+
+    const taskDir = sanitizeTaskName(userTask);
+    const taskPath = `${this.config.screenshotDir}/${taskDir}`;
+    this.state = new WorkflowState(userTask, taskPath, `elements/${taskDir}`, { redaction: this.config.redaction });
+    await this.state.initialize();
+
+    this.secrets = await SecretVault.load(this.config.secretsFile);
+    this.state.setRunInfo({ initialUrl: startUrl, config: this.config });
+
+    try {
+      await this.browser.initialize({
+        headless: this.config.headless,
+        slowMo: this.config.slowMo,
+        viewportWidth: this.config.viewportWidth,
+        viewportHeight: this.config.viewportHeight,
+        userDataDir: this.config.userDataDir,
+        storageStatePath: this.config.storageStatePath,
+        dialogPolicy: this.config.dialogPolicy,
+        downloadDir: `${this.state.getTaskPath()}/downloads`,
+        secrets: this.secrets,
+        recording: {
+          dir: this.state.getTaskPath(),
+          trace: this.config.trace,
+          har: this.config.har,
+          video: this.config.video,
+        },
+      });
+
+      await this.browser.navigate(startUrl);
+      await this.captureInitialState();
+
+      await this.browser.captureUserEvents(event => this.enqueue(() => this.handleEvent(event)));
+      this.browser.onNavigation(url => this.enqueue(() => this.handleNavigation(url)));
+
+      console.log(`Perform the task in the browser. Press Enter here (or close the browser) when done.`);
+      await this.waitForFinish();
+      await this.queue;
+
+      if (!this.browser.isClosed()) {
+        await this.recordStep({ type: 'complete' }, 'Demonstration finished');
+      }
+
+      await this.state.exportSummary('completed');
+      console.log(`\nRecording Complete\n`);
+
+      return {
+        task: userTask,
+        taskPath,
+        completed: true,
+        totalSteps: this.state.getCurrentStepNumber(),
+        durationMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      await this.state.exportSummary('error', error).catch(summaryError => {
+        console.error(`Could not write the failure summary:`, summaryError);
+      });
+      throw error;
+    } finally {
+      // Also when the person closed the window: closing is what finishes the trace, HAR, videos and console log
+      await this.browser.close();
+    }
+  }
+
+  private async captureInitialState(): Promise<void> {
+    const screenshotPath = `${this.state.getTaskPath()}/step-0-initial.png`;
+    await this.browser.saveScreenshot(screenshotPath);
+
+    const pageState = await this.browser.capturePageState({ accessibilityTree: this.config.observationMode !== 'dom' });
+    Object.assign(pageState, await this.browser.collectEvents());
+    const initialAction: ActionExecuted = { type: 'navigate', url: pageState.url };
+
+    const uiStateData: UIStateRecord = {
+      stepNumber: 0,
+      action: initialAction,
+      reasoning: 'Initial page load',
+      description: `Navigate to ${pageState.url} to begin the task. This is the starting point for the workflow where we load the initial page.`,
+      pageState: {
+        url: pageState.url,
+        title: pageState.title,
+      },
+      screenshotPath,
+      timestamp: new Date(),
+    };
+
+    await this.state.recordStep(uiStateData, pageState);
+    this.lastState = pageState;
+    this.lastUrl = pageState.url;
+
+    console.log(`[Step 0] Initial state captured`);
+  }
+
+  // Events are handled one at a time so step numbers follow the order the user acted in
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue.then(task).catch(error => {
+      console.error(`Failed to record step:`, error);
+    });
+  }
+
+  private async handleEvent(event: RecordedUserEvent): Promise<void> {
+    if (this.browser.isClosed()) return;
+    this.lastEventTime = Date.now();
+
+    const target = event.x !== undefined && event.y !== undefined
+      ? this.findElementAt(event.x, event.y)
+      : undefined;
+
+    let action: ActionExecuted;
+    switch (event.kind) {
+      case 'click':
+        action = {
+          type: 'click',
+          selector: target?.selector,
+          coordinates: { x: event.x ?? 0, y: event.y ?? 0 },
+        };
+        break;
+
+      case 'type': {
+        // A known secret becomes its placeholder, so the step can be replayed; any other password is masked here, and
+        // the element extraction never reads password values
+        const typed = this.secrets.redact(event.value ?? '');
+        action = {
+          type: 'type',
+          selector: target?.selector,
+          coordinates: event.x !== undefined ? { x: event.x, y: event.y ?? 0 } : undefined,
+          text: event.isPassword && typed === event.value ? '********' : typed,
+        };
+        break;
+      }
+
+      case 'select':
+        action = { type: 'select', selector: target?.selector, value: event.value };
+        break;
+
+      case 'keypress':
+        action = { type: 'keypress', selector: target?.selector, key: event.key };
+        break;
+
+      case 'scroll':
+        action = {
+          type: 'scroll',
+          selector: target?.selector,
+          direction: (event.deltaY ?? 0) < 0 ? 'up' : 'down',
+          amount: Math.round(Math.abs(event.deltaY ?? 0)),
+        };
+        break;
+
+      default:
+        return;
+    }
+
+    // The selector only resolves inside the element's iframe, so the replayer has to enter the same frames
+    if (action.selector && target?.framePath) {
+      action.framePath = target.framePath;
+    }
+
+    // Give the page a moment to react before capturing the result
+    await this.browser.waitFor(1000);
+    await this.recordStep(action, HUMAN_REASONING);
+  }
+
+  // Navigations right after an interaction are its consequence; anything else was typed into the address bar
+  private async handleNavigation(url: string): Promise<void> {
+    if (this.browser.isClosed() || url === this.lastUrl) return;
+    this.lastUrl = url;
+    if (Date.now() - this.lastEventTime < 2000) return;
+
+    await this.browser.waitFor(1000);
+    await this.recordStep({ type: 'navigate', url }, HUMAN_REASONING);
+  }
+
+  private async recordStep(action: ActionExecuted, reasoning: string): Promise<void> {
+    const stepNumber = this.state.getCurrentStepNumber();
+    const screenshotPath = `${this.state.getTaskPath()}/step-${stepNumber}-${action.type}.png`;
+    await this.browser.saveScreenshot(screenshotPath);
+
+    const postActionState = await this.browser.capturePageState({ accessibilityTree: this.config.observationMode !== 'dom' });
+    Object.assign(postActionState, await this.browser.collectEvents());
+    this.lastUrl = postActionState.url;
+
+    const uiStateData: UIStateRecord = {
+      stepNumber,
+      action,
+      reasoning,
+      description: generateActionDescription(action, reasoning, this.lastState ?? postActionState),
+      pageState: {
+        url: postActionState.url,
+        title: postActionState.title,
+      },
+      screenshotPath,
+      timestamp: new Date(),
+    };
+
+    await this.state.recordStep(uiStateData, postActionState, this.lastState ?? undefined);
+    this.state.printStep(stepNumber, reasoning, action);
+    this.lastState = postActionState;
+  }
+
+  // Resolve the event to the smallest extracted element under the pointer, so selectors match agent runs
+  private findElementAt(x: number, y: number): UIElement | undefined {
+    const candidates = (this.lastState?.interactiveElements ?? []).filter(el => {
+      const box = el.boundingBox;
+      return box && x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height;
+    });
+
+    const area = (el: UIElement) => (el.boundingBox ? el.boundingBox.width * el.boundingBox.height : Infinity);
+    return candidates.sort((a, b) => area(a) - area(b))[0];
+  }
+
+  private async waitForFinish(): Promise<void> {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    const enter = rl.question('');
+    enter.catch(() => undefined);
+
+    try {
+      await Promise.race([enter, this.browser.waitForClose()]);
+    } finally {
+      rl.close();
+    }
+  }
+}
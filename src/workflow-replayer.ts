@@ -0,0 +1,250 @@
+import { BrowserController } from './browser-controller';
+import {
+  WorkflowConfig,
+  ActionExecuted,
+  RecordedStep,
+  ReplayStepResult,
+  ReplayReport,
+} from './types';
+import { TaskDataset } from './task-dataset';
+import { DEFAULT_ELEMENT_TOKEN_BUDGET } from './element-ranker';
+import { resolveUploadFixture } from './upload-fixtures';
+import { SecretVault } from './secret-vault';
+import { promises as fs } from 'fs';
+
+export class WorkflowReplayer {
+  private browser: BrowserController;
+  private config: WorkflowConfig;
+
+  constructor(config: Partial<WorkflowConfig> = {}) {
+    this.config = {
+      maxSteps: config.maxSteps ?? 20,
+      screenshotDir: config.screenshotDir ?? 'dataset',
+      slowMo: config.slowMo ?? 500,
+      viewportWidth: config.viewportWidth ?? 1280,
+      viewportHeight: config.viewportHeight ?? 720,
+      userDataDir: config.userDataDir ?? 'user-data-dir',
+      headless: config.headless ?? false,
+      keepAliveSeconds: config.keepAliveSeconds ?? 0,
+      loopThreshold: config.loopThreshold ?? 3,
+      interactive: false,
+      annotateScreenshots: false,
+      setOfMarks: false,
+      elementTokenBudget: DEFAULT_ELEMENT_TOKEN_BUDGET,
+      dialogPolicy: config.dialogPolicy ?? 'accept',
+      fixturesDir: config.fixturesDir ?? 'fixtures',
+      secretsFile: config.secretsFile,
+      observationMode: 'dom',
+      trace: config.trace ?? false,
+      har: config.har ?? false,
+      video: config.video ?? false,
+    };
+
+    this.browser = new BrowserController();
+  }
+
+  // source can be a dataset/<task> folder or a workflow-summary.json file
+  async replay(source: string): Promise<ReplayReport> {
+    const dataset = await TaskDataset.open(source);
+    const isSummaryFile = !(await fs.stat(source)).isDirectory();
+    const steps = isSummaryFile
+      ? await dataset.loadSummarySteps()
+      : await dataset.loadRecordedSteps();
+    if (steps.length === 0) {
+      throw new Error(`No recorded steps found in ${source}`);
+    }
+
+    const taskPath = dataset.getTaskPath();
+    const outputDir = `${taskPath}/replay-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    await fs.mkdir(outputDir, { recursive: true });
+
+    console.log(`\nReplaying Workflow...`);
+    console.log(`Source: ${source}`);
+    console.log(`Steps: ${steps.length}\n`);
+
+    await this.browser.initialize({
+      headless: this.config.headless,
+      slowMo: this.config.slowMo,
+      viewportWidth: this.config.viewportWidth,
+      viewportHeight: this.config.viewportHeight,
+      userDataDir: this.config.userDataDir,
+      dialogPolicy: this.config.dialogPolicy,
+      downloadDir: `${outputDir}/downloads`,
+      secrets: await SecretVault.load(this.config.secretsFile),
+      recording: { dir: outputDir, trace: this.config.trace, har: this.config.har, video: this.config.video },
+    });
+
+    const startTime = new Date();
+    const results: ReplayStepResult[] = [];
+
+    try {
+      for (const step of steps) {
+        await this.browser.beginStep(`Step ${step.stepNumber}: ${step.action.type}`);
+        const result = await this.replayStep(step, outputDir);
+        results.push(result);
+
+        const status = result.success ? 'OK' : 'FAILED';
+        const fallback = result.usedCoordinates ? ' (coordinate fallback)' : '';
+        console.log(`[Step ${step.stepNumber}] ${step.action.type} ${status}${fallback}`);
+        if (result.error) {
+          console.log(`  Error: ${result.error}`);
+        }
+      }
+    } finally {
+      await this.browser.close();
+    }
+
+    const report: ReplayReport = {
+      source,
+      outputDir,
+      startTime,
+      endTime: new Date(),
+      totalSteps: results.length,
+      succeeded: results.filter(r => r.success).length,
+      failed: results.filter(r => !r.success).length,
+      steps: results,
+    };
+
+    const reportPath = `${outputDir}/replay-report.json`;
+    await fs.writeFile(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+
+    console.log(`\nReplay Summary:`);
+    console.log(`Succeeded: ${report.succeeded}/${report.totalSteps}`);
+    console.log(`Report saved to: ${reportPath}`);
+
+    return report;
+  }
+
+  private async replayStep(step: RecordedStep, outputDir: string): Promise<ReplayStepResult> {
+    const { action } = step;
+    const result: ReplayStepResult = {
+      stepNumber: step.stepNumber,
+      action: action.type,
+      selector: action.selector,
+      success: false,
+      usedCoordinates: false,
+    };
+
+    try {
+      result.usedCoordinates = await this.executeAction(action);
+      result.success = true;
+    } catch (error: any) {
+      result.error = error?.message ?? String(error);
+    }
+
+    const suffix = step.stepNumber === 0 ? 'initial' : action.type;
+    const screenshotPath = `${outputDir}/step-${step.stepNumber}-${suffix}.png`;
+    try {
+      await this.browser.saveScreenshot(screenshotPath);
+      result.screenshotPath = screenshotPath;
+    } catch (error: any) {
+      result.error = result.error ?? `Screenshot failed: ${error?.message ?? error}`;
+    }
+
+    return result;
+  }
+
+  // Returns true when the recorded coordinates had to be used instead of the selector
+  private async executeAction(action: ActionExecuted): Promise<boolean> {
+    switch (action.type) {
+      case 'click':
+        if (action.selector && await this.browser.hasElement(action.selector, undefined, action.framePath)) {
+          await this.browser.click(action.selector, undefined, action.framePath);
+          return false;
+        }
+        if (!action.coordinates) {
+          throw new Error(`Selector did not resolve and no coordinates were recorded: ${action.selector}`);
+        }
+        await this.browser.clickAt(action.coordinates.x, action.coordinates.y);
+        return true;
+
+      case 'type':
+        if (action.text === undefined) {
+          throw new Error('Recorded type action has no text');
+        }
+        if (action.selector && await this.browser.hasElement(action.selector, undefined, action.framePath)) {
+          await this.browser.type(action.selector, action.text, undefined, action.framePath);
+          return false;
+        }
+        if (!action.coordinates) {
+          throw new Error(`Selector did not resolve and no coordinates were recorded: ${action.selector}`);
+        }
+        await this.browser.typeAt(action.coordinates.x, action.coordinates.y, action.text);
+        return true;
+
+      case 'select':
+        if (!action.selector || !action.value) {
+          throw new Error('Recorded select action has no selector or value');
+        }
+        await this.browser.selectOption(action.selector, action.value, action.framePath);
+        return false;
+
+      case 'hover':
+        if (action.selector && await this.browser.hasElement(action.selector, undefined, action.framePath)) {
+          await this.browser.hover(action.selector, undefined, action.framePath);
+          return false;
+        }
+        if (!action.coordinates) {
+          throw new Error(`Selector did not resolve and no coordinates were recorded: ${action.selector}`);
+        }
+        await this.browser.hoverAt(action.coordinates.x, action.coordinates.y);
+        return true;
+
+      case 'scroll':
+        await this.browser.scroll(action.direction ?? 'down', action.amount, action.selector, action.framePath);
+        return false;
+
+      case 'keypress':
+        if (!action.key) {
+          throw new Error('Recorded keypress action has no key');
+        }
+        await this.browser.pressKey(action.key, action.selector, action.framePath);
+        return false;
+
+      case 'wait':
+        await this.browser.waitFor(action.duration, action.selector, action.framePath);
+        return false;
+
+      case 'back':
+        await this.browser.goBack();
+        return false;
+
+      case 'navigate':
+        if (!action.url) {
+          throw new Error('Recorded navigate action has no URL');
+        }
+        await this.browser.navigate(action.url);
+        return false;
+
+      case 'upload':
+        if (!action.selector || !action.file) {
+          throw new Error('Recorded upload action has no selector or file');
+        }
+        await this.browser.upload(
+          action.selector,
+          await resolveUploadFixture(this.config.fixturesDir, action.file),
+          undefined,
+          action.framePath
+        );
+        return false;
+
+      case 'switch_tab':
+        if (action.tab === undefined) {
+          throw new Error('Recorded switch_tab action has no tab');
+        }
+        // Tab ids follow opening order, so a faithful replay opens the same tabs under the same ids
+        await this.browser.switchTab(action.tab);
+        return false;
+
+      case 'close_tab':
+        await this.browser.closeTab(action.tab);
+        return false;
+
+      case 'complete':
+        return false;
+
+      default:
+        throw new Error(`Unknown action type: ${(action as ActionExecuted).type}`);
+    }
+  }
+}
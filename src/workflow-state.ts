@@ -1,16 +1,52 @@
 import { promises as fs } from 'fs';
-import { WorkflowStep, ActionExecuted } from './types';
+import path from 'path';
+import { elementLabel } from './element-ranker';
+import { TaskRedactor } from './dataset-redactor';
+import { TaskDataset } from './task-dataset';
+import {
+  WorkflowStep,
+  ActionExecuted,
+  LLMMetrics,
+  LLMUsage,
+  PageState,
+  RedactionConfig,
+  StepVerification,
+  UIStateRecord,
+  WorkflowConfig,
+  WorkflowError,
+  WorkflowStatus,
+  WorkflowSummary,
+} from './types';
+
+// Bumped whenever a field of workflow-summary.json changes meaning or goes away
+const SUMMARY_SCHEMA_VERSION = 2;
+
+const USAGE_KEYS: (keyof LLMUsage)[] = ['llmCalls', 'promptTokens', 'completionTokens', 'totalTokens'];
 
 export class WorkflowState {
   private steps: WorkflowStep[] = [];
   private userTask: string;
   private taskPath: string;
   private elementsPath: string;
+  private redactor: TaskRedactor | null = null;
+  private endState?: string;
+  private initialUrl?: string;
+  private model?: string;
+  private config?: Partial<WorkflowConfig>;
+  private setupUsage: LLMMetrics = { latencyMs: 0 }; // LLM work outside any step: start URL and end state
 
-  constructor(userTask: string, taskPath: string, elementsPath: string) {
+  constructor(
+    userTask: string,
+    taskPath: string,
+    elementsPath: string,
+    options: { redaction?: Partial<RedactionConfig> } = {}
+  ) {
     this.userTask = userTask;
     this.taskPath = taskPath;
     this.elementsPath = elementsPath;
+    if (options.redaction) {
+      this.redactor = new TaskRedactor(new TaskDataset(taskPath, path.dirname(elementsPath)), options.redaction);
+    }
   }
 
   async initialize(): Promise<void> {
@@ -26,20 +62,186 @@ export class WorkflowState {
     return this.elementsPath;
   }
 
-  addStep(
+  getEndState(): string | undefined {
+    return this.endState;
+  }
+
+  // Checkpointed right away, so a resumed run continues towards the same end state
+  async setEndState(endState: string): Promise<void> {
+    this.endState = endState;
+    await this.writeSummary('running');
+  }
+
+  // Written with the next checkpoint
+  setRunInfo(info: { initialUrl?: string; model?: string; config?: Partial<WorkflowConfig> }): void {
+    if (info.initialUrl !== undefined) this.initialUrl = info.initialUrl;
+    if (info.model !== undefined) this.model = info.model;
+    if (info.config !== undefined) this.config = info.config;
+  }
+
+  // For LLM requests that don't belong to a step; they count towards the run's usage only
+  addUsage(metrics: LLMMetrics): void {
+    this.setupUsage = sumMetrics([this.setupUsage, metrics]);
+  }
+
+  // Every step is checkpointed to workflow-summary.json (status: running) so a crashed run can be resumed
+  async addStep(
     action: ActionExecuted,
     reasoning: string,
-    screenshotPath: string
-  ): void {
+    screenshotPath: string,
+    details: { verification?: StepVerification; humanOverride?: boolean; tabId?: number; metrics?: LLMMetrics } = {}
+  ): Promise<void> {
     const step: WorkflowStep = {
       stepNumber: this.steps.length,
       screenshotPath,
       action,
       reasoning,
       timestamp: new Date(),
+      verification: details.verification,
+      humanOverride: details.humanOverride,
+      tabId: details.tabId,
+      metrics: details.metrics,
     };
 
     this.steps.push(step);
+    await this.writeSummary('running');
+  }
+
+  // Rebuilds the history from the ui-state-N.json files of an earlier run of this task, up to the first missing step.
+  // Returns null when there is nothing to resume. With redaction on, the history holds the redacted text
+  async restore(): Promise<{ url?: string; endState?: string; completed: boolean } | null> {
+    const dataset = new TaskDataset(this.taskPath, path.dirname(this.elementsPath));
+    const uiStates = await dataset.loadUiStates();
+    if (uiStates.length === 0) {
+      return null;
+    }
+
+    this.steps = [];
+    for (const uiState of uiStates) {
+      if (uiState.stepNumber !== this.steps.length) break;
+      this.steps.push({
+        stepNumber: uiState.stepNumber,
+        screenshotPath: uiState.screenshotPath,
+        action: uiState.action,
+        reasoning: uiState.reasoning,
+        timestamp: new Date(uiState.timestamp),
+        verification: uiState.verification,
+        humanOverride: uiState.humanOverride,
+        tabId: uiState.before?.tabId ?? uiState.after?.tabId,
+        metrics: uiState.metrics,
+      });
+      // Redaction is idempotent; going over the old steps again puts them back into this run's report
+      await this.redactor?.redactStep(uiState);
+    }
+
+    const summary = await dataset.loadSummary();
+    this.endState = summary?.endState;
+    this.initialUrl = summary?.initialUrl;
+    this.model = summary?.model;
+    this.config = summary?.config;
+    if (summary?.usage) {
+      // Whatever the steps don't account for was spent outside them
+      this.setupUsage = subtractMetrics(summary.usage, sumMetrics(this.steps.map(step => step.metrics)));
+    }
+    const restored = uiStates.slice(0, this.steps.length);
+
+    // A redacted URL can't be navigated to, so fall back to the latest one that survived
+    const url = restored
+      .map(uiState => uiState.after?.url ?? uiState.pageState.url)
+      .reverse()
+      .find(candidate => !candidate.includes('[REDACTED:'));
+
+    return {
+      url,
+      endState: this.endState,
+      completed: (summary?.status ? summary.status === 'completed' : summary?.completed === true) || restored[restored.length - 1].action.type === 'complete',
+    };
+  }
+
+  // Writes ui-state-N.json, elements-N.json and accessibility-N.json when captured (plus the pre-action observation
+  // when given), then appends the step to the history
+  async recordStep(uiState: UIStateRecord, after: PageState, before?: PageState): Promise<void> {
+    const stepNumber = uiState.stepNumber;
+
+    if (before) {
+      const beforeScreenshotPath = `${this.taskPath}/step-${stepNumber}-before.png`;
+      await fs.writeFile(beforeScreenshotPath, Buffer.from(before.screenshotBase64, 'base64'));
+
+      const beforeElementsPath = `${this.elementsPath}/elements-${stepNumber}-before.json`;
+      await fs.writeFile(beforeElementsPath, JSON.stringify(before.interactiveElements, null, 2), 'utf-8');
+
+      uiState.before = {
+        url: before.url,
+        title: before.title,
+        screenshotPath: beforeScreenshotPath,
+        elementsPath: beforeElementsPath,
+        tabId: before.activeTabId,
+      };
+
+      if (before.ranking) {
+        const rankingPath = `${this.elementsPath}/ranking-${stepNumber}.json`;
+        const ranking = {
+          ...before.ranking,
+          selected: before.ranking.selected.map(({ index, score }) => ({
+            index,
+            score,
+            selector: before.interactiveElements[index].selector,
+            label: elementLabel(before.interactiveElements[index]),
+          })),
+        };
+        await fs.writeFile(rankingPath, JSON.stringify(ranking, null, 2), 'utf-8');
+        uiState.before.rankingPath = rankingPath;
+      }
+
+      if (before.accessibilityTree) {
+        const accessibilityPath = `${this.elementsPath}/accessibility-${stepNumber}-before.json`;
+        await fs.writeFile(accessibilityPath, JSON.stringify(before.accessibilityTree, null, 2), 'utf-8');
+        uiState.before.accessibilityPath = accessibilityPath;
+      }
+
+      if (before.markedScreenshotBase64) {
+        const markedPath = `${this.taskPath}/step-${stepNumber}-before-marks.png`;
+        await fs.writeFile(markedPath, Buffer.from(before.markedScreenshotBase64, 'base64'));
+        uiState.before.markedScreenshotPath = markedPath;
+      }
+    }
+
+    const elementsFilePath = `${this.elementsPath}/elements-${stepNumber}.json`;
+    await fs.writeFile(elementsFilePath, JSON.stringify(after.interactiveElements, null, 2), 'utf-8');
+
+    if (after.dialogs?.length) {
+      uiState.dialogs = after.dialogs;
+    }
+    if (after.downloads?.length) {
+      uiState.downloads = after.downloads;
+    }
+
+    uiState.after = {
+      url: uiState.pageState.url,
+      title: uiState.pageState.title,
+      screenshotPath: uiState.screenshotPath,
+      elementsPath: elementsFilePath,
+      tabId: after.activeTabId,
+    };
+
+    if (after.accessibilityTree) {
+      const accessibilityPath = `${this.elementsPath}/accessibility-${stepNumber}.json`;
+      await fs.writeFile(accessibilityPath, JSON.stringify(after.accessibilityTree, null, 2), 'utf-8');
+      uiState.after.accessibilityPath = accessibilityPath;
+    }
+
+    const uiStatePath = `${this.taskPath}/ui-state-${stepNumber}.json`;
+    await fs.writeFile(uiStatePath, JSON.stringify(uiState, null, 2), 'utf-8');
+
+    await this.addStep(uiState.action, uiState.reasoning, uiState.screenshotPath, {
+      verification: uiState.verification,
+      humanOverride: uiState.humanOverride,
+      tabId: uiState.before?.tabId ?? uiState.after.tabId,
+      metrics: uiState.metrics,
+    });
+
+    // Only the files are scrubbed; the in-memory history the agent prompts with keeps the real values
+    await this.redactor?.redactStep(uiState);
   }
 
   getHistory(): WorkflowStep[] {
@@ -50,9 +252,36 @@ export class WorkflowState {
     return this.steps.length;
   }
 
-  async exportSummary(): Promise<void> {
-    const summary = {
+  // Writes the final summary. With status 'error', pass what was thrown; the step in progress is recorded with it
+  async exportSummary(status: Exclude<WorkflowStatus, 'running'>, error?: unknown): Promise<void> {
+    const summaryPath = await this.writeSummary(status, error === undefined ? undefined : this.describeError(error));
+
+    console.log(`\nWorkflow Summary:`);
+    console.log(`Task: ${this.userTask}`);
+    console.log(`Status: ${status}`);
+    console.log(`Total Steps: ${this.steps.length}`);
+    console.log(`Summary saved to: ${summaryPath}`);
+
+    if (this.redactor) {
+      const report = await this.redactor.finish();
+      const total = Object.values(report.totals).reduce((sum, count) => sum + count, 0);
+      console.log(`Redacted ${total} matches and blurred ${report.blurredRegions} regions`);
+    }
+  }
+
+  // Written to a temporary file first, so a crash mid-write never leaves a truncated summary behind
+  private async writeSummary(status: WorkflowStatus, error?: WorkflowError): Promise<string> {
+    const summary: WorkflowSummary = {
+      schemaVersion: SUMMARY_SCHEMA_VERSION,
       task: this.userTask,
+      status,
+      completed: status === 'completed',
+      error,
+      endState: this.endState,
+      initialUrl: this.initialUrl,
+      model: this.model,
+      config: this.config,
+      usage: sumMetrics([this.setupUsage, ...this.steps.map(step => step.metrics)]),
       totalSteps: this.steps.length,
       startTime: this.steps[0]?.timestamp,
       endTime: this.steps[this.steps.length - 1]?.timestamp,
@@ -61,33 +290,95 @@ export class WorkflowState {
         action: step.action.type,
         selector: step.action.selector,
         coordinates: step.action.coordinates,
+        text: step.action.text,
+        url: step.action.url,
+        value: step.action.value,
+        key: step.action.key,
+        direction: step.action.direction,
+        amount: step.action.amount,
+        duration: step.action.duration,
+        framePath: step.action.framePath,
+        tab: step.action.tab,
+        file: step.action.file,
+        tabId: step.tabId,
         reasoning: step.reasoning,
+        noOp: step.verification?.noOp,
+        recovery: step.verification?.recovery,
+        humanOverride: step.humanOverride,
         screenshot: step.screenshotPath,
+        metrics: step.metrics,
       })),
     };
 
     const summaryPath = `${this.taskPath}/workflow-summary.json`;
-    await fs.writeFile(summaryPath, JSON.stringify(summary, null, 2));
+    await fs.writeFile(`${summaryPath}.tmp`, JSON.stringify(summary, null, 2));
+    await fs.rename(`${summaryPath}.tmp`, summaryPath);
+    await this.redactor?.redactSummary();
+    return summaryPath;
+  }
 
-    console.log(`\nWorkflow Summary:`);
-    console.log(`Task: ${this.userTask}`);
-    console.log(`Total Steps: ${this.steps.length}`);
-    console.log(`Summary saved to: ${summaryPath}`);
+  private describeError(error: unknown): WorkflowError {
+    return {
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      stepNumber: this.steps.length,
+    };
   }
 
-  printStep(stepNumber: number, reasoning: string, action: ActionExecuted): void {
-    console.log(`\n[Step ${stepNumber}]`);
+  printStep(stepNumber: number, reasoning: string, action: ActionExecuted, humanOverride?: boolean): void {
+    console.log(`\n[Step ${stepNumber}]${humanOverride ? ' (human override)' : ''}`);
     console.log(`Action: ${action.type}`);
     if (action.selector) {
       console.log(`Selector: ${action.selector}`);
     }
+    if (action.resolvedBy && action.resolvedBy.strategy !== 'selector') {
+      console.log(`Resolved by: ${action.resolvedBy.strategy} ${action.resolvedBy.value}`);
+    }
     if (action.coordinates) {
       console.log(`Clicked at: (${action.coordinates.x}, ${action.coordinates.y})`);
     }
     if (action.text) {
       console.log(`Text: ${action.text}`);
     }
+    if (action.value) {
+      console.log(`Option: ${action.value}`);
+    }
+    if (action.key) {
+      console.log(`Key: ${action.key}`);
+    }
+    if (action.direction) {
+      console.log(`Scroll: ${action.direction}${action.amount ? ` ${action.amount}px` : ''}`);
+    }
+    if (action.url) {
+      console.log(`URL: ${action.url}`);
+    }
+    if (action.tab !== undefined) {
+      console.log(`Tab: ${action.tab}`);
+    }
+    if (action.file) {
+      console.log(`File: ${action.file}`);
+    }
     console.log(`Reasoning: ${reasoning}`);
   }
 }
 
+// Token fields stay absent unless at least one of the inputs reported them
+function sumMetrics(metrics: (LLMMetrics | undefined)[]): LLMMetrics {
+  const total: LLMMetrics = { latencyMs: 0 };
+  for (const entry of metrics) {
+    if (!entry) continue;
+    total.latencyMs += entry.latencyMs;
+    for (const key of USAGE_KEYS) {
+      if (entry[key] !== undefined) total[key] = (total[key] ?? 0) + entry[key]!;
+    }
+  }
+  return total;
+}
+
+function subtractMetrics(total: LLMMetrics, part: LLMMetrics): LLMMetrics {
+  const rest: LLMMetrics = { latencyMs: Math.max(0, total.latencyMs - part.latencyMs) };
+  for (const key of USAGE_KEYS) {
+    if (total[key] !== undefined) rest[key] = Math.max(0, total[key]! - (part[key] ?? 0));
+  }
+  return rest;
+}